@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 import { performance } from 'perf_hooks';
-import { TextAnalyzer } from '../src/analyzer/TextAnalyzer.js';
+import { TextAnalysisResult, TextAnalyzer } from '../src/analyzer/TextAnalyzer.js';
 
 interface BenchmarkResult {
   method: string;
@@ -11,6 +11,21 @@ interface BenchmarkResult {
   threshold: number;
 }
 
+interface ComparisonResult {
+  words: number;
+  /** Null when skipped because the previous size already exceeded the time budget */
+  separateMs: number | null;
+  singlePassMs: number;
+  speedup: number | null;
+  identical: boolean | null;
+}
+
+// Input sizes for the analyzeText comparison, in words
+const COMPARISON_SIZES = [10_000, 100_000, 1_000_000];
+
+// The one-pass-per-metric analysis is skipped for larger inputs once it takes longer than this
+const SEPARATE_BUDGET_MS = 10_000;
+
 /**
  * Generate realistic text sample with specified word count
  */
@@ -82,6 +97,78 @@ async function benchmarkMethod(
   };
 }
 
+/**
+ * Analyze text the way analyzeText did before the single-pass engine, one method per metric
+ */
+function analyzeSeparately(analyzer: TextAnalyzer, text: string): TextAnalysisResult {
+  return {
+    wordCount: analyzer.countWords(text),
+    letterCount: analyzer.countLetters(text),
+    characterCount: analyzer.countCharacters(text),
+    sentenceCount: analyzer.countSentences(text),
+    paragraphCount: analyzer.countParagraphs(text),
+    readingTimeSeconds: analyzer.estimateReadingTime(text),
+    speakingTimeSeconds: analyzer.estimateSpeakingTime(text),
+  };
+}
+
+/**
+ * Time a single run of a function
+ */
+function time<T>(run: () => T): { result: T; elapsedMs: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, elapsedMs: Math.round((performance.now() - start) * 100) / 100 };
+}
+
+/**
+ * Compare the single-pass analyzeText with one pass per metric on growing inputs
+ */
+async function compare() {
+  console.log('🚀 Comparing single-pass analyzeText with one pass per metric...\n');
+
+  const analyzer = new TextAnalyzer();
+  const results: ComparisonResult[] = [];
+
+  // Warm-up runs to eliminate JIT cost
+  const warmUp = generateTestText(1_000);
+  analyzeSeparately(analyzer, warmUp);
+  analyzer.analyzeText(warmUp);
+
+  let skipSeparate = false;
+  for (const words of COMPARISON_SIZES) {
+    // Emoji and accented words keep the grapheme fallback in the measurement
+    const text = generateTestText(words).replace(/ (dolor|amet)\b/g, ' $1 👍🏽 café');
+    const singlePass = time(() => analyzer.analyzeText(text));
+    const separate: ReturnType<typeof time<TextAnalysisResult>> | null = skipSeparate ? null : time(() => analyzeSeparately(analyzer, text));
+    skipSeparate = separate === null || separate.elapsedMs > SEPARATE_BUDGET_MS;
+
+    const result: ComparisonResult = {
+      words,
+      separateMs: separate?.elapsedMs ?? null,
+      singlePassMs: singlePass.elapsedMs,
+      speedup: separate ? Math.round(separate.elapsedMs / singlePass.elapsedMs * 100) / 100 : null,
+      identical: separate ? JSON.stringify(separate.result) === JSON.stringify(singlePass.result) : null,
+    };
+    results.push(result);
+
+    if (separate) {
+      const status = result.identical ? '✅' : '❌';
+      console.log(`${status} ${words} words: ${result.separateMs}ms → ${result.singlePassMs}ms (${result.speedup}x)`);
+    } else {
+      console.log(`⏭️  ${words} words: separate passes skipped → ${result.singlePassMs}ms`);
+    }
+  }
+
+  console.log('\n📋 JSON Results:');
+  console.log(JSON.stringify({ timestamp: new Date().toISOString(), results }, null, 2));
+
+  if (results.some(r => r.identical === false)) {
+    console.error('\n❌ The single-pass analysis differs from the individual methods');
+    process.exitCode = 1;
+  }
+}
+
 /**
  * Main benchmark runner
  */
@@ -155,8 +242,8 @@ async function main() {
   }
 }
 
-// Run benchmarks
-main().catch(err => {
+// Run benchmarks, or the analyzeText comparison with --compare
+(process.argv.includes('--compare') ? compare() : main()).catch(err => {
   console.error('💥 Benchmark failed:', err);
   process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { AnalyzerCache, UnsupportedLocaleError, isSupportedLocale, resolveLocale } from './AnalyzerCache.js';
+import { TextAnalyzer } from './TextAnalyzer.js';
+
+describe('AnalyzerCache', () => {
+  describe('resolveLocale', () => {
+    it('should canonicalize supported tags', () => {
+      expect(resolveLocale('en-us')).toBe('en-US');
+      expect(resolveLocale('th')).toBe('th');
+      expect(resolveLocale('zh-Hans-CN')).toBe('zh-Hans-CN');
+    });
+
+    it('should return undefined for invalid or unsupported tags', () => {
+      expect(resolveLocale('not a tag')).toBeUndefined();
+      expect(resolveLocale('')).toBeUndefined();
+      expect(resolveLocale('xx')).toBeUndefined();
+    });
+  });
+
+  describe('isSupportedLocale', () => {
+    it('should accept supported tags and reject invalid ones', () => {
+      expect(isSupportedLocale('ja-JP')).toBe(true);
+      expect(isSupportedLocale('km')).toBe(true);
+      expect(isSupportedLocale('en_US')).toBe(false);
+    });
+  });
+
+  describe('get', () => {
+    it('should return the default analyzer when no locale is given', () => {
+      const cache = new AnalyzerCache();
+      expect(cache.defaultLocale).toBe('en-US');
+      expect(cache.get()).toBeInstanceOf(TextAnalyzer);
+      expect(cache.get()).toBe(cache.get('en-US'));
+    });
+
+    it('should reuse analyzers for equivalent tags', () => {
+      const cache = new AnalyzerCache();
+      const thai = cache.get('th');
+      expect(cache.get('TH')).toBe(thai);
+      expect(cache.get('en-us')).toBe(cache.get('en-US'));
+      expect(cache.size).toBe(2);
+    });
+
+    it('should share one analyzer between private-use and extension variants', () => {
+      const cache = new AnalyzerCache();
+      const english = cache.get('en-x-a1');
+      expect(cache.get('en-x-a2')).toBe(english);
+      expect(cache.get('en-u-co-phonebk')).toBe(english);
+      expect(cache.get('en')).toBe(english);
+      expect(english.locale).toBe('en');
+      expect(cache.size).toBe(1);
+    });
+
+    it('should return working analyzers for the requested locale', () => {
+      const cache = new AnalyzerCache();
+      // Thai has no spaces between words ("hello" + polite particle)
+      expect(cache.get('th').countWords('สวัสดีครับ')).toBe(2);
+    });
+
+    it('should throw for unsupported locales', () => {
+      const cache = new AnalyzerCache();
+      expect(() => cache.get('not a tag')).toThrow(UnsupportedLocaleError);
+      expect(() => new AnalyzerCache('xx')).toThrow(UnsupportedLocaleError);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+
+/**
+ * Error thrown when a locale is not a valid BCP 47 tag or is not supported by Intl.Segmenter.
+ */
+export class UnsupportedLocaleError extends Error {
+  constructor(public readonly locale: string) {
+    super(`Unsupported locale "${locale}": expected a BCP 47 language tag supported by Intl.Segmenter`);
+    this.name = 'UnsupportedLocaleError';
+  }
+}
+
+/**
+ * Resolves a BCP 47 language tag to its canonical form if Intl.Segmenter supports it.
+ * @param locale The language tag to resolve, e.g., "en-us" or "th".
+ * @returns The canonical tag, or undefined if the tag is invalid or unsupported.
+ */
+export function resolveLocale(locale: string): string | undefined {
+  try {
+    const [supported] = Intl.Segmenter.supportedLocalesOf(locale);
+    return supported;
+  } catch {
+    // Intl throws a RangeError for structurally invalid tags
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a locale can be used to construct a TextAnalyzer.
+ * @param locale The language tag to check.
+ * @returns True if the tag is valid and supported by Intl.Segmenter.
+ */
+export function isSupportedLocale(locale: string): boolean {
+  return resolveLocale(locale) !== undefined;
+}
+
+/**
+ * Caches TextAnalyzer instances per locale so that segmenters are only built once per locale.
+ * The cache holds at most one analyzer per locale the runtime has segmentation data for.
+ */
+export class AnalyzerCache {
+  private analyzers = new Map<string, TextAnalyzer>();
+  public readonly defaultLocale: string;
+
+  /**
+   * Initializes the cache with a default locale used when no locale is requested.
+   * @param defaultLocale A BCP 47 language tag, e.g., "en-US".
+   * @throws UnsupportedLocaleError if the default locale is not supported.
+   */
+  constructor(defaultLocale: string = 'en-US') {
+    const resolved = resolveLocale(defaultLocale);
+    if (!resolved) {
+      throw new UnsupportedLocaleError(defaultLocale);
+    }
+    this.defaultLocale = resolved;
+  }
+
+  /**
+   * Returns the analyzer for a locale, creating it on first use.
+   * @param locale A BCP 47 language tag; falls back to the default locale when omitted.
+   * @returns The cached TextAnalyzer for the locale the segmenters resolve the tag to.
+   * @throws UnsupportedLocaleError if the locale is not supported.
+   */
+  public get(locale?: string): TextAnalyzer {
+    const resolved = locale === undefined ? this.defaultLocale : resolveLocale(locale);
+    if (!resolved) {
+      throw new UnsupportedLocaleError(locale as string);
+    }
+
+    let analyzer = this.analyzers.get(resolved);
+    if (!analyzer) {
+      // Keyed by the locale the segmenters resolve to, since private-use and extension subtags
+      // they ignore would otherwise add a new analyzer for every variant a client sends
+      const segmenterLocale = new Intl.Segmenter(resolved).resolvedOptions().locale;
+      analyzer = this.analyzers.get(segmenterLocale);
+      if (!analyzer) {
+        analyzer = new TextAnalyzer(segmenterLocale);
+        this.analyzers.set(segmenterLocale, analyzer);
+      }
+    }
+    return analyzer;
+  }
+
+  /**
+   * Number of analyzers currently cached.
+   */
+  public get size(): number {
+    return this.analyzers.size;
+  }
+}
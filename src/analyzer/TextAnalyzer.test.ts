@@ -15,6 +15,7 @@ describe('TextAnalyzer', () => {
     it('should accept a locale parameter', () => {
       const koreanAnalyzer = new TextAnalyzer('ko-KR');
       expect(koreanAnalyzer).toBeInstanceOf(TextAnalyzer);
+      expect(koreanAnalyzer.locale).toBe('ko-KR');
     });
   });
 
@@ -50,6 +51,39 @@ describe('TextAnalyzer', () => {
       expect(analyzer.countCharacters('한글')).toBe(2); // Korean characters
       expect(analyzer.countCharacters('你好')).toBe(2); // Chinese characters
     });
+
+    it('should count in other units', () => {
+      const text = 'Café 👨‍👩‍👧 \n𠮷';
+
+      expect(analyzer.countCharacters(text, { unit: 'graphemes' })).toBe(9);
+      expect(analyzer.countCharacters(text, { unit: 'code-points' })).toBe(13);
+      expect(analyzer.countCharacters(text, { unit: 'utf16-units' })).toBe(17);
+      expect(analyzer.countCharacters(text, { unit: 'utf8-bytes' })).toBe(Buffer.byteLength(text));
+      expect(analyzer.countCharacters(text, { unit: 'non-whitespace' })).toBe(6);
+    });
+
+    it('should count lone surrogates as the three UTF-8 bytes of U+FFFD', () => {
+      expect(analyzer.countCharacters('a\ud800b', { unit: 'utf8-bytes' })).toBe(5);
+      expect(analyzer.countCharacters('a\ud800b', { unit: 'code-points' })).toBe(3);
+    });
+  });
+
+  describe('countCharacterUnits', () => {
+    it('should return zero for every unit for empty string', () => {
+      expect(analyzer.countCharacterUnits('')).toEqual({ graphemes: 0, codePoints: 0, utf16Units: 0, utf8Bytes: 0, nonWhitespace: 0 });
+    });
+
+    it('should agree with countCharacters in every unit', () => {
+      const text = 'e\u0301 🇯🇵\t日本語 ١٢٣ ß\r\n';
+
+      expect(analyzer.countCharacterUnits(text)).toEqual({
+        graphemes: analyzer.countCharacters(text, { unit: 'graphemes' }),
+        codePoints: analyzer.countCharacters(text, { unit: 'code-points' }),
+        utf16Units: analyzer.countCharacters(text, { unit: 'utf16-units' }),
+        utf8Bytes: analyzer.countCharacters(text, { unit: 'utf8-bytes' }),
+        nonWhitespace: analyzer.countCharacters(text, { unit: 'non-whitespace' }),
+      });
+    });
   });
 
   describe('countWords', () => {
@@ -88,6 +122,78 @@ describe('TextAnalyzer', () => {
       expect(analyzer.countWords('Hello, world! How are you?')).toBe(5);
       expect(analyzer.countWords('123 456 789')).toBe(3); // Numbers
     });
+
+    it('should count each Chinese and Japanese character as a word in cjk mode', () => {
+      expect(analyzer.countWords('你好 世界', { mode: 'cjk' })).toBe(4);
+      expect(analyzer.countWords('東京タワーへ行く。', { mode: 'cjk' })).toBe(8);
+      expect(analyzer.countWords('안녕하세요 세계', { mode: 'cjk' })).toBe(2);
+      expect(analyzer.countWords('hello world', { mode: 'cjk' })).toBe(2);
+    });
+  });
+
+  describe('countWords profiles', () => {
+    // Expected counts for each profile: unicode, ms-word, google-docs, wc
+    const GOLDEN: Array<[string, number, number, number, number]> = [
+      ['well-known', 2, 1, 2, 1],
+      ['e-mail re-entry', 4, 2, 4, 2],
+      ["don't stop", 2, 2, 2, 2],
+      ['pi is 3.14159', 3, 3, 3, 3],
+      ['1,000,000 people', 2, 2, 2, 2],
+      ['Visit https://example.com/path-to/page now', 7, 3, 3, 3],
+      ['Mail jane.doe@example.com today', 4, 3, 3, 3],
+      ['wait—what', 2, 1, 2, 1],
+      ['A — B', 2, 3, 2, 3],
+      ['Tom & Jerry', 2, 3, 2, 3],
+      ['10\u00a0kg', 2, 1, 1, 1],
+      ['東京タワーへ。', 2, 6, 6, 1],
+      ['   ', 0, 0, 0, 0],
+    ];
+
+    it.each(GOLDEN)('should count %j as %i, %i, %i and %i words', (text, unicode, msWord, googleDocs, wc) => {
+      expect(analyzer.countWords(text, { profile: 'unicode' })).toBe(unicode);
+      expect(analyzer.countWords(text, { profile: 'ms-word' })).toBe(msWord);
+      expect(analyzer.countWords(text, { profile: 'google-docs' })).toBe(googleDocs);
+      expect(analyzer.countWords(text, { profile: 'wc' })).toBe(wc);
+    });
+
+    it('should use the unicode profile by default', () => {
+      const text = 'Visit https://example.com/path-to/page now';
+      expect(analyzer.countWords(text)).toBe(analyzer.countWords(text, { profile: 'unicode' }));
+    });
+
+    it('should only apply cjk mode to the unicode profile', () => {
+      expect(analyzer.countWords('東京タワー', { profile: 'unicode', mode: 'cjk' })).toBe(5);
+      expect(analyzer.countWords('東京タワー', { profile: 'wc', mode: 'cjk' })).toBe(1);
+    });
+  });
+
+  describe('getWords', () => {
+    it('should return the words without whitespace and punctuation', () => {
+      expect(analyzer.getWords('')).toEqual([]);
+      expect(analyzer.getWords("Hello, world! Don't stop.")).toEqual(['Hello', 'world', "Don't", 'stop']);
+    });
+  });
+
+  describe('getSentenceSegments', () => {
+    it('should return each sentence with its offset', () => {
+      expect(analyzer.getSentenceSegments('One. Two!  Three?')).toEqual([
+        { segment: 'One. ', index: 0 },
+        { segment: 'Two!  ', index: 5 },
+        { segment: 'Three?', index: 11 },
+      ]);
+    });
+  });
+
+  describe('getParagraphSegments', () => {
+    it('should return trimmed paragraphs with their offsets, like countParagraphs', () => {
+      const text = '  First\nstill first.\n\n\n\nSecond. ';
+      expect(analyzer.getParagraphSegments(text)).toEqual([
+        { segment: 'First\nstill first.', index: 2 },
+        { segment: 'Second.', index: 24 },
+      ]);
+      expect(analyzer.getParagraphSegments(text)).toHaveLength(analyzer.countParagraphs(text));
+      expect(analyzer.getParagraphSegments('  \n\n ')).toEqual([]);
+    });
   });
 
   describe('countLetters', () => {
@@ -119,11 +225,56 @@ describe('TextAnalyzer', () => {
       expect(analyzer.countLetters('a1b2c3')).toBe(3);
     });
 
-    it('should exclude unicode non-Latin characters', () => {
-      // Only counting a-z, A-Z as specified in PRD
-      expect(analyzer.countLetters('hello 世界')).toBe(5); // Only 'hello'
-      expect(analyzer.countLetters('café')).toBe(3); // Only 'caf' (excluding é)
-      expect(analyzer.countLetters('🚀hello')).toBe(5); // Only 'hello'
+    it('should count unicode letters by default', () => {
+      expect(analyzer.countLetters('hello 世界')).toBe(7);
+      expect(analyzer.countLetters('café')).toBe(4);
+      expect(analyzer.countLetters('Straße')).toBe(6);
+      expect(analyzer.countLetters('Привет')).toBe(6); // Cyrillic
+      expect(analyzer.countLetters('Γειά σου')).toBe(7); // Greek
+      expect(analyzer.countLetters('한국어')).toBe(3); // Hangul
+      expect(analyzer.countLetters('🚀hello')).toBe(5); // Emoji are not letters
+    });
+
+    it('should not count combining marks separately', () => {
+      expect(analyzer.countLetters('cafe\u0301')).toBe(4); // e + combining acute accent
+    });
+
+    it('should exclude unicode non-Latin characters in ascii mode', () => {
+      expect(analyzer.countLetters('hello 世界', { mode: 'ascii' })).toBe(5); // Only 'hello'
+      expect(analyzer.countLetters('café', { mode: 'ascii' })).toBe(3); // Only 'caf' (excluding é)
+      expect(analyzer.countLetters('🚀hello', { mode: 'ascii' })).toBe(5); // Only 'hello'
+    });
+  });
+
+  describe('countLettersByScript', () => {
+    it('should return an empty breakdown for empty string', () => {
+      expect(analyzer.countLettersByScript('')).toEqual({ letterCount: 0, scripts: {} });
+      expect(analyzer.countLettersByScript(null as any)).toEqual({ letterCount: 0, scripts: {} });
+    });
+
+    it('should group letters by script', () => {
+      expect(analyzer.countLettersByScript('Hello Привет 你好 مرحبا 123!')).toEqual({
+        letterCount: 18,
+        scripts: { Latin: 5, Cyrillic: 6, Han: 2, Arabic: 5 },
+      });
+    });
+
+    it('should distinguish Japanese scripts', () => {
+      expect(analyzer.countLettersByScript('日本語のカタカナ').scripts).toEqual({
+        Han: 3,
+        Hiragana: 1,
+        Katakana: 4,
+      });
+    });
+
+    it('should group unlisted scripts under Other', () => {
+      // Runic letters
+      expect(analyzer.countLettersByScript('ᚠᚢᚦ').scripts).toEqual({ Other: 3 });
+    });
+
+    it('should agree with countLetters', () => {
+      const text = 'Straße, Ελλάδα, 한국어 ⼀ and ᚠᚢᚦ!';
+      expect(analyzer.countLettersByScript(text).letterCount).toBe(analyzer.countLetters(text));
     });
 
     it('should handle whitespace correctly', () => {
@@ -132,6 +283,50 @@ describe('TextAnalyzer', () => {
     });
   });
 
+  describe('countCjk', () => {
+    it('should return an empty breakdown for empty string', () => {
+      expect(analyzer.countCjk('')).toEqual({
+        ideographs: 0,
+        kana: 0,
+        hangul: 0,
+        fullWidthPunctuation: 0,
+        manuscriptCharacters: 0,
+        otherWords: 0,
+        total: 0,
+      });
+    });
+
+    it('should count Japanese characters by kind', () => {
+      expect(analyzer.countCjk('今日は良い天気です。Googleで2024年に「テスト」を行いました！')).toEqual({
+        ideographs: 7,
+        kana: 14,
+        hangul: 0,
+        fullWidthPunctuation: 4,
+        manuscriptCharacters: 35,
+        otherWords: 2,
+        total: 23,
+      });
+    });
+
+    it('should count Latin words and CJK characters in the mixed-script total', () => {
+      const breakdown = analyzer.countCjk('这是一个测试，包含English words和数字123。');
+
+      expect(breakdown).toMatchObject({ ideographs: 11, fullWidthPunctuation: 2, otherWords: 3, total: 14 });
+    });
+
+    it('should count Korean in space-separated words', () => {
+      expect(analyzer.countCjk('안녕하세요. 한국어 텍스트입니다.')).toMatchObject({ hangul: 14, otherWords: 3, total: 3 });
+    });
+
+    it('should handle half-width kana, supplementary ideographs and full-width letters', () => {
+      expect(analyzer.countCjk('𠮷野家 ｶﾀｶﾅ ＡＢＣ')).toMatchObject({ ideographs: 3, kana: 4, otherWords: 1, total: 8 });
+    });
+
+    it('should leave whitespace, including the ideographic space, out of manuscript characters', () => {
+      expect(analyzer.countCjk('日本\u3000語\n\n 👍🏽').manuscriptCharacters).toBe(4);
+    });
+  });
+
   describe('countParagraphs', () => {
     it('should return 0 for empty string', () => {
       expect(analyzer.countParagraphs('')).toBe(0);
@@ -253,6 +448,80 @@ Conclusion paragraph with final thoughts.`;
     });
   });
 
+  describe('countSentences smart mode', () => {
+    const count = (text: string, options: { abbreviations?: string[] } = {}) =>
+      analyzer.countSentences(text, { mode: 'smart', ...options });
+
+    it('should return 0 for empty string', () => {
+      expect(count('')).toBe(0);
+      expect(count(null as any)).toBe(0);
+      expect(count('  \n ')).toBe(0);
+    });
+
+    it('should match standard mode for plain text', () => {
+      expect(count('First sentence. Second! Third?')).toBe(3);
+      expect(count('First.\n\nSecond.\n\nThird.')).toBe(3);
+      expect(count('Just a phrase without punctuation')).toBe(1);
+    });
+
+    it.each([
+      ['Dr. Smith lives on Main St. near the library.', 1],
+      ['Mr. Jones went to the U.S.A. last year.', 1],
+      ['Dr. Smith lives on Main St. He is nice.', 2],
+      ['Mrs. Brown and Prof. Green met Sen. White.', 1],
+      ['Use a capital, e.g. Paris or London. Then stop.', 2],
+      ['E.g. Paris is a capital.', 1],
+      ['She has a Ph.D. in Computer Science.', 1],
+      ['The meeting is at 5 p.m. Tomorrow it rains.', 2],
+      ['I live in the U.S.A. It is big.', 2],
+    ])('should handle abbreviations: %s', (text, expected) => {
+      expect(count(text)).toBe(expected);
+    });
+
+    it.each([
+      ['Pi is approx. 3.14. Nice.', 2],
+      ['It costs $3.50. That is cheap.', 2],
+      ['See section 4.2. It explains everything.', 2],
+      ['1. First item', 1],
+    ])('should handle numbers: %s', (text, expected) => {
+      expect(count(text)).toBe(expected);
+    });
+
+    it.each([
+      ['"Stop!" he said.', 1],
+      ['"Where?" she asked. Then she left.', 2],
+      ['He won (again!) today.', 1],
+      ['"Run!" Nobody moved.', 2],
+    ])('should handle quoted speech: %s', (text, expected) => {
+      expect(count(text)).toBe(expected);
+    });
+
+    it.each([
+      ['Wait... what happened?', 1],
+      ['Wait... What happened?', 2],
+      ['Wait… what happened?', 1],
+      ['Wait… What happened?', 2],
+      ['I was thinking... maybe we should go.', 1],
+    ])('should handle ellipses: %s', (text, expected) => {
+      expect(count(text)).toBe(expected);
+    });
+
+    it('should accept extra abbreviations with or without a trailing period', () => {
+      expect(count('Acme Corp. Ltd. builds rockets.')).toBe(2);
+      expect(count('Acme Corp. Ltd. builds rockets.', { abbreviations: ['Corp.', 'Ltd'] })).toBe(1);
+    });
+
+    it('should use the locale abbreviation dictionary', () => {
+      const german = new TextAnalyzer('de-DE');
+      expect(german.countSentences('Das ist z.B. gut. Ja.', { mode: 'smart' })).toBe(2);
+      expect(german.countSentences('Am 3. Oktober ist Feiertag. Dann nicht.', { mode: 'smart' })).toBe(2);
+      expect(german.countSentences('Am 3. Oktober ist Feiertag.')).toBe(2); // standard mode
+
+      const french = new TextAnalyzer('fr');
+      expect(french.countSentences('M. Dupont est là. Mme. Durand aussi.', { mode: 'smart' })).toBe(2);
+    });
+  });
+
   describe('analyzeText', () => {
     it('should return all zero counts for empty string', () => {
       const result = analyzer.analyzeText('');
@@ -262,6 +531,8 @@ Conclusion paragraph with final thoughts.`;
         characterCount: 0,
         sentenceCount: 0,
         paragraphCount: 0,
+        readingTimeSeconds: 0,
+        speakingTimeSeconds: 0,
       });
     });
 
@@ -273,6 +544,8 @@ Conclusion paragraph with final thoughts.`;
         characterCount: 0,
         sentenceCount: 0,
         paragraphCount: 0,
+        readingTimeSeconds: 0,
+        speakingTimeSeconds: 0,
       });
     });
 
@@ -284,6 +557,8 @@ Conclusion paragraph with final thoughts.`;
         characterCount: 13,    // all characters including punctuation and space
         sentenceCount: 1,      // one sentence
         paragraphCount: 1,     // one paragraph
+        readingTimeSeconds: 1,   // words at 238 per minute, rounded up
+        speakingTimeSeconds: 1,  // words at 150 per minute, rounded up
       });
     });
 
@@ -297,10 +572,12 @@ Third paragraph with numbers 123 and symbols @#$.`;
       const result = analyzer.analyzeText(text);
       expect(result).toEqual({
         wordCount: 22,         // Total words across all paragraphs
-        letterCount: 118,      // Only a-z, A-Z characters
+        letterCount: 118,      // Only letters, no digits or symbols
         characterCount: 153,   // All characters including spaces, punctuation, numbers
         sentenceCount: 5,      // Five sentences total
         paragraphCount: 3,     // Three paragraphs
+        readingTimeSeconds: 6,   // words at 238 per minute, rounded up
+        speakingTimeSeconds: 9,  // words at 150 per minute, rounded up
       });
     });
 
@@ -308,10 +585,12 @@ Third paragraph with numbers 123 and symbols @#$.`;
       const result = analyzer.analyzeText('Hello 🚀 world! 你好');
       expect(result).toEqual({
         wordCount: 3,          // "Hello", "world", "你好"
-        letterCount: 10,       // Only H-e-l-l-o-w-o-r-l-d (excludes 你好)
+        letterCount: 12,       // H-e-l-l-o-w-o-r-l-d plus 你好
         characterCount: 17,    // All characters including emoji and Chinese
         sentenceCount: 2,      // Two sentences (split after "!")
         paragraphCount: 1,     // One paragraph
+        readingTimeSeconds: 1,   // words at 238 per minute, rounded up
+        speakingTimeSeconds: 2,  // words at 150 per minute, rounded up
       });
     });
 
@@ -323,9 +602,42 @@ Third paragraph with numbers 123 and symbols @#$.`;
         characterCount: 39,    // All characters including spaces and punctuation
         sentenceCount: 3,      // "Dr. ", "Smith lives on Main St. ", "He is nice."
         paragraphCount: 1,     // One paragraph
+        readingTimeSeconds: 3,   // words at 238 per minute, rounded up
+        speakingTimeSeconds: 4,  // words at 150 per minute, rounded up
       });
     });
 
+    it('should break the analysis down by paragraph on request', () => {
+      const text = 'One two three. Four five.\n\nSix.\n\nSeven eight nine ten.';
+      const result = analyzer.analyzeText(text, { breakdown: true });
+
+      expect(result.wordCount).toBe(10);
+      expect(result.breakdown.paragraphs).toHaveLength(3);
+      expect(result.breakdown.paragraphs[1]).toEqual({
+        index: 1,
+        start: 27,
+        end: 31,
+        ...analyzer.analyzeText('Six.'),
+      });
+      expect(result.breakdown).toMatchObject({
+        longestParagraph: { index: 0, wordCount: 5 },
+        shortestParagraph: { index: 1, wordCount: 1 },
+        averageParagraphWords: 3.33,
+        averageSentenceWords: 2.5,
+      });
+    });
+
+    it('should return an empty breakdown for empty text', () => {
+      expect(analyzer.analyzeText('', { breakdown: true }).breakdown).toEqual({
+        paragraphs: [],
+        longestParagraph: null,
+        shortestParagraph: null,
+        averageParagraphWords: 0,
+        averageSentenceWords: 0,
+      });
+      expect(analyzer.analyzeText('Hello.')).not.toHaveProperty('breakdown');
+    });
+
     it('should maintain consistency with individual methods', () => {
       const text = 'Test text for consistency check.\n\nSecond paragraph.';
       const result = analyzer.analyzeText(text);
@@ -336,6 +648,53 @@ Third paragraph with numbers 123 and symbols @#$.`;
       expect(result.characterCount).toBe(analyzer.countCharacters(text));
       expect(result.sentenceCount).toBe(analyzer.countSentences(text));
       expect(result.paragraphCount).toBe(analyzer.countParagraphs(text));
+      expect(result.readingTimeSeconds).toBe(analyzer.estimateReadingTime(text));
+      expect(result.speakingTimeSeconds).toBe(analyzer.estimateSpeakingTime(text));
+    });
+  });
+
+  describe('estimateReadingTime', () => {
+    const words = (count: number) => Array(count).fill('word').join(' ');
+
+    it('should return 0 for empty text', () => {
+      expect(analyzer.estimateReadingTime('')).toBe(0);
+      expect(analyzer.estimateReadingTime(null as any)).toBe(0);
+    });
+
+    it('should use 238 words per minute by default, rounding up', () => {
+      expect(analyzer.estimateReadingTime(words(238))).toBe(60);
+      expect(analyzer.estimateReadingTime(words(239))).toBe(61);
+    });
+
+    it('should accept a custom rate', () => {
+      expect(analyzer.estimateReadingTime(words(200), { wordsPerMinute: 100 })).toBe(120);
+    });
+
+    it('should add viewing time for images and code blocks', () => {
+      // 12 + 11 + 10 seconds for the images and 20 seconds for the code block
+      expect(analyzer.estimateReadingTime('', { images: 3, codeBlocks: 1 })).toBe(53);
+      // Images after the tenth take the minimum of 3 seconds
+      expect(analyzer.estimateReadingTime('', { images: 12 })).toBe(12 + 11 + 10 + 9 + 8 + 7 + 6 + 5 + 4 + 3 + 3 + 3);
+    });
+
+    it('should count characters for Chinese and Japanese', () => {
+      const japanese = new TextAnalyzer('ja');
+      // 10 letters at 300 characters per minute, punctuation not counted
+      expect(japanese.estimateReadingTime('今日は良い天気ですね。')).toBe(2);
+      expect(japanese.estimateReadingTime('今日は良い天気ですね。', { charactersPerMinute: 60 })).toBe(10);
+    });
+  });
+
+  describe('estimateSpeakingTime', () => {
+    it('should use 150 words per minute by default and ignore images', () => {
+      const text = Array(150).fill('word').join(' ');
+      expect(analyzer.estimateSpeakingTime(text, { images: 5 })).toBe(60);
+      expect(analyzer.estimateSpeakingTime(text, { wordsPerMinute: 300 })).toBe(30);
+    });
+
+    it('should use 250 characters per minute for Chinese', () => {
+      const chinese = new TextAnalyzer('zh-CN');
+      expect(chinese.estimateSpeakingTime('你'.repeat(250))).toBe(60);
     });
   });
 });
\ No newline at end of file
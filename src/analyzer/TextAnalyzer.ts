@@ -1,11 +1,211 @@
+import { AbbreviationDictionary, getAbbreviationDictionary } from './abbreviations.js';
+import { analysisFromCounts, countAll } from './counts.js';
+import { checkDeadline } from './deadline.js';
+import { IncrementalAnalysis } from './incremental.js';
+import {
+  READING_CHARACTERS_PER_MINUTE,
+  READING_WORDS_PER_MINUTE,
+  SPEAKING_CHARACTERS_PER_MINUTE,
+  SPEAKING_WORDS_PER_MINUTE,
+  countRateCharacters,
+  mediaSeconds,
+  usesCharacterRate,
+} from './timing.js';
+
 export interface TextAnalysisResult {
   wordCount: number;
   letterCount: number;
   characterCount: number;
   sentenceCount: number;
   paragraphCount: number;
+  readingTimeSeconds: number;
+  speakingTimeSeconds: number;
+}
+
+/**
+ * Character counting units: user-perceived characters ("graphemes"), Unicode code points,
+ * UTF-16 code units (JavaScript string length), UTF-8 bytes, and user-perceived characters
+ * other than whitespace ("non-whitespace", the "characters without spaces" of word processors).
+ */
+export type CharacterCountUnit = 'graphemes' | 'code-points' | 'utf16-units' | 'utf8-bytes' | 'non-whitespace';
+
+export interface CharacterCountOptions {
+  unit?: CharacterCountUnit;
+}
+
+/**
+ * The length of a text in every character counting unit.
+ */
+export interface CharacterUnitCounts {
+  graphemes: number;
+  codePoints: number;
+  utf16Units: number;
+  utf8Bytes: number;
+  nonWhitespace: number;
 }
 
+/**
+ * Word counting modes: "standard" counts the word-like segments of Intl.Segmenter, "cjk" counts
+ * each Chinese or Japanese character as a word, like publishing tools and Microsoft Word.
+ */
+export type WordCountMode = 'standard' | 'cjk';
+
+/**
+ * Word counting conventions:
+ * - "unicode": the word-like segments of Intl.Segmenter, so "well-known", "wait—what" and URLs
+ *   count as several words, "don't" and "3.14" as one, and lone punctuation not at all.
+ * - "ms-word": runs of characters between spaces, including lone punctuation such as "&" and
+ *   "—"; each Chinese and Japanese character counts as a word and full-width punctuation does not.
+ * - "google-docs": like "ms-word", but hyphens and dashes also separate words, runs without a
+ *   letter or digit are not words, and URLs and email addresses count as one word.
+ * - "wc": runs of characters between spaces, like `wc -w`, so a Chinese or Japanese sentence
+ *   without spaces is one word.
+ * No-break spaces join words in every profile but "unicode".
+ */
+export type WordCountProfile = 'unicode' | 'ms-word' | 'google-docs' | 'wc';
+
+export interface WordCountOptions {
+  /** Applies to the "unicode" profile; the other profiles have their own CJK rules. */
+  mode?: WordCountMode;
+  profile?: WordCountProfile;
+}
+
+export interface CjkCountBreakdown {
+  /** Han ideographs, including iteration marks such as 々. */
+  ideographs: number;
+  /** Hiragana and katakana, including the prolonged sound mark ー. */
+  kana: number;
+  /** Hangul syllables and jamo. */
+  hangul: number;
+  /** Punctuation and symbols from the CJK and full-width blocks, such as 。、「」！. */
+  fullWidthPunctuation: number;
+  /** User-perceived characters other than whitespace, as counted for manuscripts. */
+  manuscriptCharacters: number;
+  /** Words outside Han and kana, such as Latin words, numbers and space-separated Korean words. */
+  otherWords: number;
+  /** Mixed-script word count: ideographs and kana plus the other words. */
+  total: number;
+}
+
+/**
+ * Letter counting modes: "unicode" counts any Unicode letter, "ascii" only a-z and A-Z.
+ */
+export type LetterCountMode = 'unicode' | 'ascii';
+
+export interface LetterCountOptions {
+  mode?: LetterCountMode;
+}
+
+export interface LetterScriptBreakdown {
+  letterCount: number;
+  /** Letter counts keyed by Unicode script name; letters from unlisted scripts are grouped under "Other". */
+  scripts: Record<string, number>;
+}
+
+/**
+ * Sentence counting modes: "standard" uses Intl.Segmenter boundaries as-is, "smart" repairs
+ * boundaries after abbreviations, numbers, quoted speech and ellipses.
+ */
+export type SentenceCountMode = 'standard' | 'smart';
+
+export interface SentenceCountOptions {
+  mode?: SentenceCountMode;
+  /** Extra abbreviations that never end a sentence in "smart" mode, e.g. ["approx.", "Corp."]. */
+  abbreviations?: string[];
+}
+
+/**
+ * A segment of a text and the UTF-16 offset where it starts.
+ */
+export interface TextSegment {
+  segment: string;
+  index: number;
+}
+
+export interface TimeEstimateOptions {
+  /** Words per minute, for locales measured in words. */
+  wordsPerMinute?: number;
+  /** Characters per minute, for Chinese, Japanese and Korean. */
+  charactersPerMinute?: number;
+  /** Images outside the text, such as in Markdown, that add viewing time when reading. */
+  images?: number;
+  /** Code blocks outside the text that add reading time. */
+  codeBlocks?: number;
+}
+
+export interface AnalyzeTextOptions extends TimeEstimateOptions {
+  /** Also analyze each paragraph and compute paragraph and sentence length statistics (default false). */
+  breakdown?: boolean;
+}
+
+export interface ParagraphAnalysis extends TextAnalysisResult {
+  /** Position of the paragraph in the text, starting at 0. */
+  index: number;
+  /** UTF-16 offset where the paragraph starts. */
+  start: number;
+  /** UTF-16 offset just after the paragraph. */
+  end: number;
+}
+
+export interface ParagraphLength {
+  /** Position of the paragraph in the text, starting at 0. */
+  index: number;
+  wordCount: number;
+}
+
+export interface TextBreakdown {
+  /** Analysis of each paragraph, split like countParagraphs; images and code blocks are not attributed to paragraphs. */
+  paragraphs: ParagraphAnalysis[];
+  /** The paragraph with the most words (the first one on ties), or null for text without paragraphs. */
+  longestParagraph: ParagraphLength | null;
+  /** The paragraph with the fewest words (the first one on ties), or null for text without paragraphs. */
+  shortestParagraph: ParagraphLength | null;
+  /** Mean number of words per paragraph, rounded to 2 decimals. */
+  averageParagraphWords: number;
+  /** Mean number of words per sentence, rounded to 2 decimals. */
+  averageSentenceWords: number;
+}
+
+export interface DetailedTextAnalysisResult extends TextAnalysisResult {
+  breakdown: TextBreakdown;
+}
+
+// A Unicode ellipsis followed by a capitalized word, which Intl.Segmenter does not treat as a boundary
+const ELLIPSIS_BOUNDARY = /(?<=…[\p{Pf}\p{Pe}"']*\s+)(?=[\p{Ps}\p{Pi}"']*\p{Lu})/u;
+
+// Characters counted one word each in "cjk" word counting mode
+const CJK_WORD_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]/gu;
+
+// Punctuation and symbols of the CJK Symbols and Punctuation, Katakana, CJK Compatibility Forms
+// and Halfwidth and Fullwidth Forms blocks; the ideographic space is whitespace
+const FULL_WIDTH_PUNCTUATION = /(?=[\p{P}\p{S}])[\u3001-\u303f\u30fb\ufe30-\ufe4f\uff01-\uff65\uffe0-\uffee]/gu;
+
+// Whitespace that separates words in the "ms-word", "google-docs" and "wc" profiles: all
+// Unicode whitespace except the no-break spaces U+00A0, U+2007, U+202F and U+FEFF
+const WORD_SEPARATOR = /[\t-\r \u0085\u1680\u2000-\u2006\u2008-\u200a\u2028\u2029\u205f\u3000]+/;
+
+// Hyphens and dashes that separate words in the "google-docs" profile
+const DASH = /[-\u2010-\u2015\u2212]+/;
+
+// Tokens that the "google-docs" profile counts as one word despite their hyphens
+const URL_OR_EMAIL = /^(?:[a-z][a-z\d+.-]*:\/\/|www\.)\S+$|^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
+
+// Scripts reported individually in letter breakdowns, in reporting order
+const LETTER_SCRIPTS = [
+  'Latin', 'Cyrillic', 'Greek', 'Armenian', 'Georgian', 'Hebrew', 'Arabic', 'Syriac', 'Thaana',
+  'Devanagari', 'Bengali', 'Gurmukhi', 'Gujarati', 'Oriya', 'Tamil', 'Telugu', 'Kannada',
+  'Malayalam', 'Sinhala', 'Thai', 'Lao', 'Tibetan', 'Myanmar', 'Khmer', 'Mongolian', 'Ethiopic',
+  'Cherokee', 'Han', 'Hiragana', 'Katakana', 'Hangul', 'Bopomofo',
+] as const;
+
+// Matches one letter at a time: one capture group per listed script, followed by a catch-all
+// group for any other letter. The lookahead excludes non-letters that belong to a script,
+// such as Kangxi radicals in Han.
+const LETTER_SCRIPT_PATTERN = new RegExp(
+  `(?=\\p{L})(?:${[...LETTER_SCRIPTS.map(script => `(\\p{Script=${script}})`), '(\\p{L})'].join('|')})`,
+  'gu'
+);
+
 /**
  * Performs text analysis operations, such as counting characters, words, and sentences,
  * with proper support for internationalization.
@@ -15,6 +215,9 @@ export class TextAnalyzer {
   private wordSegmenter: Intl.Segmenter;
   private sentenceSegmenter: Intl.Segmenter;
 
+  /** The canonical locale the segmenters resolved to. */
+  public readonly locale: string;
+
   /**
    * Initializes the TextAnalyzer for a specific locale.
    * @param locale A BCP 47 language tag, e.g., "en-US" or "ko-KR".
@@ -24,48 +227,194 @@ export class TextAnalyzer {
     this.graphemeSegmenter = new Intl.Segmenter(locale, { granularity: 'grapheme' });
     this.wordSegmenter = new Intl.Segmenter(locale, { granularity: 'word' });
     this.sentenceSegmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+    this.locale = this.sentenceSegmenter.resolvedOptions().locale;
   }
 
   /**
-   * Counts the number of user-perceived characters (grapheme clusters) in a string.
+   * Counts the number of user-perceived characters (grapheme clusters) in a string, or its
+   * length in another unit.
    * @param text The text to analyze.
+   * @param options Counting options, such as the unit (default "graphemes").
    * @returns The total number of characters.
    */
-  public countCharacters(text: string): number {
+  public countCharacters(text: string, options: CharacterCountOptions = {}): number {
     if (!text) {
       return 0;
     }
-    const segments = this.graphemeSegmenter.segment(text);
-    return [...segments].length;
+    switch (options.unit) {
+      case 'code-points':
+        return countCodePoints(text).codePoints;
+      case 'utf16-units':
+        return text.length;
+      case 'utf8-bytes':
+        return countCodePoints(text).utf8Bytes;
+    }
+
+    // Counted while iterating, since book-length texts would otherwise allocate an array of every segment
+    let count = 0;
+    for (const { segment } of this.segment(text, 'grapheme')) {
+      if (options.unit !== 'non-whitespace' || segment.trim() !== '') {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Measures a string in every character counting unit at once.
+   * @param text The text to analyze.
+   * @returns The length in graphemes, code points, UTF-16 code units, UTF-8 bytes and non-whitespace graphemes.
+   */
+  public countCharacterUnits(text: string): CharacterUnitCounts {
+    const counts: CharacterUnitCounts = { graphemes: 0, codePoints: 0, utf16Units: 0, utf8Bytes: 0, nonWhitespace: 0 };
+    if (!text) {
+      return counts;
+    }
+
+    for (const { segment } of this.segment(text, 'grapheme')) {
+      counts.graphemes++;
+      if (segment.trim() !== '') {
+        counts.nonWhitespace++;
+      }
+    }
+    return { ...counts, ...countCodePoints(text), utf16Units: text.length };
   }
 
   /**
    * Counts the number of words in a string.
+   * In "standard" mode (the default) every word-like segment counts, so Chinese and Japanese
+   * are counted in dictionary words. In "cjk" mode every Han and kana character counts as a
+   * word, as in the total of countCjk. Other profiles than "unicode" follow the conventions of
+   * other tools instead; see WordCountProfile.
    * @param text The text to analyze.
+   * @param options Counting options, such as the word mode and the counting profile.
    * @returns The total number of words.
    */
-  public countWords(text: string): number {
+  public countWords(text: string, options: WordCountOptions = {}): number {
     if (!text) {
       return 0;
     }
-    const segments = this.wordSegmenter.segment(text);
-    return [...segments].filter(segment => segment.isWordLike).length;
+    if (options.profile && options.profile !== 'unicode') {
+      return countProfileWords(text, options.profile);
+    }
+    if (options.mode === 'cjk') {
+      return this.countCjk(text).total;
+    }
+    let count = 0;
+    for (const segment of this.segment(text, 'word')) {
+      if (segment.isWordLike) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Counts Chinese, Japanese and Korean text the way publishers and word processors do: Han
+   * ideographs, kana, hangul and full-width punctuation separately, the characters of a
+   * manuscript (everything but whitespace), and a mixed-script total in which each ideograph
+   * and kana counts as a word and the text between them is counted in words. Korean separates
+   * words with spaces, so hangul is counted in words as well.
+   * @param text The text to analyze.
+   * @returns The counts per kind of character and the mixed-script total.
+   */
+  public countCjk(text: string): CjkCountBreakdown {
+    const breakdown: CjkCountBreakdown = {
+      ideographs: 0,
+      kana: 0,
+      hangul: 0,
+      fullWidthPunctuation: 0,
+      manuscriptCharacters: 0,
+      otherWords: 0,
+      total: 0,
+    };
+    if (!text) {
+      return breakdown;
+    }
+
+    breakdown.manuscriptCharacters = this.countCharacters(text, { unit: 'non-whitespace' });
+    breakdown.ideographs = text.match(/\p{Script=Han}/gu)?.length ?? 0;
+    breakdown.kana = text.match(/[\p{Script=Hiragana}\p{Script=Katakana}ー]/gu)?.length ?? 0;
+    breakdown.hangul = text.match(/\p{Script=Hangul}/gu)?.length ?? 0;
+    breakdown.fullWidthPunctuation = text.match(FULL_WIDTH_PUNCTUATION)?.length ?? 0;
+    // Separating the counted characters keeps them from joining the words around them
+    breakdown.otherWords = this.countWords(text.replace(CJK_WORD_CHARACTER, ' ').replace(FULL_WIDTH_PUNCTUATION, ' '));
+    breakdown.total = breakdown.ideographs + breakdown.kana + breakdown.otherWords;
+
+    return breakdown;
+  }
+
+  /**
+   * Splits a string into its words, in order of appearance.
+   * @param text The text to split.
+   * @returns The word-like segments, excluding whitespace and punctuation.
+   */
+  public getWords(text: string): string[] {
+    if (!text) {
+      return [];
+    }
+    return [...this.segment(text, 'word')].filter(segment => segment.isWordLike).map(segment => segment.segment);
   }
 
   /**
-   * Counts the number of alphabetic letters (a-z, A-Z) in a string.
+   * Segments a string with the analyzer's cached segmenter for a granularity.
+   * @param text The text to segment.
+   * @param granularity "grapheme", "word" or "sentence".
+   * @returns The segments, each with its offset and, for words, whether it is word-like.
+   */
+  public *segment(text: string, granularity: 'grapheme' | 'word' | 'sentence'): Generator<Intl.SegmentData> {
+    const segmenter = granularity === 'grapheme'
+      ? this.graphemeSegmenter
+      : granularity === 'sentence' ? this.sentenceSegmenter : this.wordSegmenter;
+    // Long texts take long to segment, so the time budget of the call is checked on the way
+    let iteration = 0;
+    for (const segment of segmenter.segment(text)) {
+      checkDeadline(++iteration);
+      yield segment;
+    }
+  }
+
+  /**
+   * Counts the number of letters in a string.
+   * In "unicode" mode (the default) every code point with the Unicode Letter property counts,
+   * so "café", "Straße", Cyrillic, Greek and Hangul text are counted in full; combining marks
+   * are not counted separately. In "ascii" mode only a-z and A-Z are counted.
    * @param text The text to analyze.
-   * @returns The total number of alphabetic letters.
+   * @param options Counting options, such as the letter mode.
+   * @returns The total number of letters.
    */
-  public countLetters(text: string): number {
+  public countLetters(text: string, options: LetterCountOptions = {}): number {
     if (!text) {
       return 0;
     }
-    // Use regex to match only alphabetic characters
-    const letters = text.match(/[a-zA-Z]/g);
+    const pattern = options.mode === 'ascii' ? /[a-zA-Z]/g : /\p{L}/gu;
+    const letters = text.match(pattern);
     return letters ? letters.length : 0;
   }
 
+  /**
+   * Counts Unicode letters grouped by the script they belong to (Latin, Cyrillic, Han, Arabic, ...).
+   * @param text The text to analyze.
+   * @returns The total letter count and a per-script breakdown, omitting scripts with no letters.
+   */
+  public countLettersByScript(text: string): LetterScriptBreakdown {
+    const scripts: Record<string, number> = {};
+    let letterCount = 0;
+    if (!text) {
+      return { letterCount, scripts };
+    }
+
+    for (const match of text.matchAll(LETTER_SCRIPT_PATTERN)) {
+      // The first defined capture group identifies the script; the last group is "Other"
+      const groupIndex = match.findIndex((group, index) => index > 0 && group !== undefined);
+      const script = LETTER_SCRIPTS[groupIndex - 1] ?? 'Other';
+      scripts[script] = (scripts[script] ?? 0) + 1;
+      letterCount++;
+    }
+
+    return { letterCount, scripts };
+  }
+
   /**
    * Counts the number of paragraphs in a string.
    * Paragraphs are defined as text segments separated by double line breaks.
@@ -86,48 +435,326 @@ export class TextAnalyzer {
     return nonEmptyParagraphs.length;
   }
 
+  /**
+   * Splits a string into paragraphs at double line breaks, like countParagraphs.
+   * @param text The text to split.
+   * @returns The non-empty paragraphs without surrounding whitespace, with the offset where each starts.
+   */
+  public getParagraphSegments(text: string): TextSegment[] {
+    const segments: TextSegment[] = [];
+    if (!text) {
+      return segments;
+    }
+    let start = 0;
+    for (const separator of [...text.matchAll(/\n\s*\n|\r\n\s*\r\n/g), undefined]) {
+      const end = separator ? separator.index : text.length;
+      const paragraph = text.slice(start, end);
+      const leading = paragraph.search(/\S/);
+      if (leading !== -1) {
+        segments.push({ segment: paragraph.trim(), index: start + leading });
+      }
+      if (separator) {
+        start = end + separator[0].length;
+      }
+    }
+    return segments;
+  }
+
   /**
    * Counts the number of sentences in a string.
    * 
-   * Note: This method uses Intl.Segmenter with sentence granularity, which follows
-   * the Unicode Text Segmentation (UAX #29) standard. This has some limitations:
+   * In "standard" mode (the default) this uses Intl.Segmenter with sentence granularity, which
+   * follows the Unicode Text Segmentation (UAX #29) standard. This has some limitations:
    * - Abbreviations like "Dr.", "Mr.", "U.S.A." may be treated as sentence boundaries
    * - Ellipses are treated as single sentence boundaries, not multiple
    * - Complex linguistic patterns may not be handled perfectly
    * 
+   * "smart" mode post-processes those boundaries using the locale's abbreviation dictionary
+   * plus any extra abbreviations, and joins sentences split by list numbers, ordinals,
+   * decimals or quoted speech ("Stop!" he said).
+   * 
    * @param text The text to analyze.
+   * @param options Counting options, such as the sentence mode and extra abbreviations.
    * @returns The total number of sentences.
    */
-  public countSentences(text: string): number {
+  public countSentences(text: string, options: SentenceCountOptions = {}): number {
+    return this.getSentences(text, options).length;
+  }
+
+  /**
+   * Splits a string into sentences, using the same boundaries as countSentences.
+   * @param text The text to split.
+   * @param options Splitting options, such as the sentence mode and extra abbreviations.
+   * @returns The non-empty sentences, including their trailing whitespace.
+   */
+  public getSentences(text: string, options: SentenceCountOptions = {}): string[] {
     // Handle empty, null, undefined, or whitespace-only strings
     if (!text || text.trim() === '') {
-      return 0;
+      return [];
+    }
+
+    if (options.mode === 'smart') {
+      return this.splitSentencesSmart(text, options.abbreviations ?? []);
     }
 
-    // Use the iterator pattern to count segments efficiently
     // Filter out whitespace-only segments to handle newlines properly
-    let count = 0;
-    for (const segment of this.sentenceSegmenter.segment(text)) {
-      if (segment.segment.trim() !== '') {
-        count++;
+    const sentences: string[] = [];
+    for (const { segment } of this.segment(text, 'sentence')) {
+      if (segment.trim() !== '') {
+        sentences.push(segment);
       }
     }
 
-    return count;
+    return sentences;
+  }
+
+  /**
+   * Splits a string into sentences like getSentences, with the offset where each one starts.
+   * @param text The text to split.
+   * @param options Splitting options, such as the sentence mode and extra abbreviations.
+   * @returns The non-empty sentences and their UTF-16 offsets.
+   */
+  public getSentenceSegments(text: string, options: SentenceCountOptions = {}): TextSegment[] {
+    const segments: TextSegment[] = [];
+    let cursor = 0;
+    for (const sentence of this.getSentences(text, options)) {
+      const index = text.indexOf(sentence, cursor);
+      segments.push({ segment: sentence, index });
+      cursor = index + sentence.length;
+    }
+    return segments;
+  }
+
+  /**
+   * Estimates how long it takes to read a string silently. Chinese, Japanese and Korean are
+   * measured in characters (letters and digits) per minute, other languages in words per minute.
+   * Images and code blocks that were removed from the text add a fixed time each.
+   * @param text The text to analyze.
+   * @param options Reading rates and the number of removed images and code blocks.
+   * @returns The reading time in whole seconds, rounded up.
+   */
+  public estimateReadingTime(text: string, options: TimeEstimateOptions = {}): number {
+    const seconds = this.estimateTime(
+      text,
+      options.wordsPerMinute ?? READING_WORDS_PER_MINUTE,
+      options.charactersPerMinute ?? READING_CHARACTERS_PER_MINUTE
+    );
+    return seconds + mediaSeconds(options.images ?? 0, options.codeBlocks ?? 0);
+  }
+
+  /**
+   * Estimates how long it takes to read a string aloud. Images and code blocks are not spoken.
+   * @param text The text to analyze.
+   * @param options Speaking rates.
+   * @returns The speaking time in whole seconds, rounded up.
+   */
+  public estimateSpeakingTime(text: string, options: TimeEstimateOptions = {}): number {
+    return this.estimateTime(
+      text,
+      options.wordsPerMinute ?? SPEAKING_WORDS_PER_MINUTE,
+      options.charactersPerMinute ?? SPEAKING_CHARACTERS_PER_MINUTE
+    );
+  }
+
+  /**
+   * Performs comprehensive text analysis, returning counts for all supported metrics. All
+   * metrics are computed together in one pass of the word segmenter and one of the sentence
+   * segmenter, with the same results as the individual methods.
+   * @param text The text to analyze.
+   * @param options Images and code blocks removed from the text, for the reading time, and
+   * whether to break the analysis down by paragraph.
+   * @returns An object containing all text analysis metrics, with a per-paragraph breakdown if requested.
+   */
+  public analyzeText(text: string, options: AnalyzeTextOptions & { breakdown: true }): DetailedTextAnalysisResult;
+  public analyzeText(text: string, options?: AnalyzeTextOptions): TextAnalysisResult;
+  public analyzeText(text: string, options: AnalyzeTextOptions = {}): TextAnalysisResult | DetailedTextAnalysisResult {
+    const result = analysisFromCounts(countAll(this, text), this.locale, options);
+    return options.breakdown ? { ...result, breakdown: this.analyzeParagraphs(text, result) } : result;
+  }
+
+  /**
+   * Starts analyzing a text that arrives in chunks, such as a book read from a stream or sent
+   * in several messages.
+   * @param options Sentence counting options.
+   * @returns An analysis to append the chunks to, whose totals match analyzeText for the text so far.
+   */
+  public createIncrementalAnalysis(options: SentenceCountOptions = {}): IncrementalAnalysis {
+    return new IncrementalAnalysis(this, options);
   }
 
   /**
-   * Performs comprehensive text analysis, returning counts for all supported metrics.
+   * Analyzes each paragraph of a string and summarizes paragraph and sentence lengths.
    * @param text The text to analyze.
-   * @returns An object containing all text analysis metrics.
+   * @param totals The analysis of the whole text.
+   * @returns The per-paragraph breakdown.
    */
-  public analyzeText(text: string): TextAnalysisResult {
+  private analyzeParagraphs(text: string, totals: TextAnalysisResult): TextBreakdown {
+    const paragraphs = this.getParagraphSegments(text).map(({ segment, index }, position): ParagraphAnalysis => ({
+      index: position,
+      start: index,
+      end: index + segment.length,
+      ...this.analyzeText(segment),
+    }));
+
+    let longestParagraph: ParagraphLength | null = null;
+    let shortestParagraph: ParagraphLength | null = null;
+    for (const { index, wordCount } of paragraphs) {
+      if (!longestParagraph || wordCount > longestParagraph.wordCount) {
+        longestParagraph = { index, wordCount };
+      }
+      if (!shortestParagraph || wordCount < shortestParagraph.wordCount) {
+        shortestParagraph = { index, wordCount };
+      }
+    }
+
+    const average = (count: number, units: number) => (units > 0 ? Math.round(count / units * 100) / 100 : 0);
     return {
-      wordCount: this.countWords(text),
-      letterCount: this.countLetters(text),
-      characterCount: this.countCharacters(text),
-      sentenceCount: this.countSentences(text),
-      paragraphCount: this.countParagraphs(text),
+      paragraphs,
+      longestParagraph,
+      shortestParagraph,
+      averageParagraphWords: average(totals.wordCount, paragraphs.length),
+      averageSentenceWords: average(totals.wordCount, totals.sentenceCount),
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Converts the length of a string into seconds at the locale's rate.
+   * @param text The text to measure.
+   * @param wordsPerMinute The rate for locales measured in words.
+   * @param charactersPerMinute The rate for locales measured in characters.
+   * @returns The time in whole seconds, rounded up.
+   */
+  private estimateTime(text: string, wordsPerMinute: number, charactersPerMinute: number): number {
+    if (!text) {
+      return 0;
+    }
+    if (usesCharacterRate(this.locale)) {
+      return Math.ceil(countRateCharacters(text) * 60 / charactersPerMinute);
+    }
+    return Math.ceil(this.countWords(text) * 60 / wordsPerMinute);
+  }
+
+  /**
+   * Splits text into sentences using Intl.Segmenter boundaries, then joins segments whose
+   * boundary is not a real sentence end.
+   * @param text The text to split.
+   * @param extraAbbreviations User-supplied abbreviations that never end a sentence.
+   * @returns The non-empty sentences, including their trailing whitespace.
+   */
+  private splitSentencesSmart(text: string, extraAbbreviations: string[]): string[] {
+    const dictionary = getAbbreviationDictionary(this.locale);
+    const abbreviations = new Set([
+      ...dictionary.abbreviations,
+      ...extraAbbreviations.map(abbreviation => abbreviation.endsWith('.') ? abbreviation : `${abbreviation}.`),
+    ]);
+
+    const sentences: string[] = [];
+    let pending = '';
+    for (const { segment } of this.segment(text, 'sentence')) {
+      for (const part of segment.split(ELLIPSIS_BOUNDARY)) {
+        if (pending.trim() !== '' && part.trim() !== '' &&
+            !this.continuesSentence(pending, part, abbreviations, dictionary)) {
+          sentences.push(pending);
+          pending = '';
+        }
+        pending += part;
+      }
+    }
+    if (pending.trim() !== '') {
+      sentences.push(pending);
+    }
+
+    return sentences;
+  }
+
+  /**
+   * Decides whether a segment boundary falls inside a sentence rather than at its end.
+   * @param previous The text before the boundary.
+   * @param next The segment after the boundary.
+   * @param abbreviations Abbreviations that never end a sentence.
+   * @param dictionary The locale's abbreviation rules.
+   * @returns True if the two segments belong to the same sentence.
+   */
+  private continuesSentence(
+    previous: string,
+    next: string,
+    abbreviations: Set<string>,
+    dictionary: AbbreviationDictionary
+  ): boolean {
+    const before = previous.trimEnd();
+    const after = next.trimStart();
+    // Last word before the boundary, without opening brackets or quotes
+    const lastWord = before.slice(before.search(/\S+$/)).replace(/^[\p{Ps}\p{Pi}"']+/u, '');
+
+    // Abbreviations, also when capitalized at the start of a sentence ("E.g.")
+    const uncapitalized = lastWord.charAt(0).toLowerCase() + lastWord.slice(1);
+    if (abbreviations.has(lastWord) || abbreviations.has(uncapitalized)) {
+      return true;
+    }
+
+    // List numbers such as "1." standing alone
+    if (/^\d+\.$/.test(before.trimStart())) {
+      return true;
+    }
+
+    // Ordinals such as German "3. Oktober"
+    if (dictionary.ordinalNumbers && /(?:^|\s)\d{1,2}\.$/.test(before) && /^\p{L}/u.test(after)) {
+      return true;
+    }
+
+    // Numbers after a period, such as "approx. 3.14", which Intl.Segmenter may split
+    if (before.endsWith('.') && /^\d/.test(after)) {
+      return true;
+    }
+
+    // Quoted speech and interjections continuing in lowercase: "Stop!" he said.
+    if (/[?!][\p{Pf}\p{Pe}"']*$/u.test(before) && /^\p{Ll}/u.test(after)) {
+      return true;
+    }
+
+    return false;
+  }
+}
+
+/**
+ * Counts the code points of a string and the bytes of its UTF-8 encoding, in which lone
+ * surrogates become U+FFFD like they do in TextEncoder and Buffer.
+ * @param text The text to measure.
+ * @returns The number of code points and UTF-8 bytes.
+ */
+function countCodePoints(text: string): { codePoints: number; utf8Bytes: number } {
+  let codePoints = 0;
+  let utf8Bytes = 0;
+  for (const character of text) {
+    const codePoint = character.codePointAt(0) ?? 0;
+    codePoints++;
+    utf8Bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+  }
+  return { codePoints, utf8Bytes };
+}
+
+/**
+ * Counts words following the conventions of a word processor or of wc.
+ * @param text The text to analyze.
+ * @param profile The counting profile, other than "unicode".
+ * @returns The number of words.
+ */
+function countProfileWords(text: string, profile: Exclude<WordCountProfile, 'unicode'>): number {
+  let count = 0;
+  if (profile !== 'wc') {
+    // Each Chinese and Japanese character is a word of its own and separates the words around it
+    count += text.match(CJK_WORD_CHARACTER)?.length ?? 0;
+    text = text.replace(CJK_WORD_CHARACTER, ' ').replace(FULL_WIDTH_PUNCTUATION, ' ');
+  }
+
+  for (const token of text.split(WORD_SEPARATOR)) {
+    if (profile !== 'google-docs') {
+      count += token ? 1 : 0;
+    } else if (URL_OR_EMAIL.test(token)) {
+      count++;
+    } else {
+      count += token.split(DASH).filter(part => /[\p{L}\p{N}]/u.test(part)).length;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,61 @@
+/**
+ * Per-language rules used by the "smart" sentence mode to repair sentence boundaries
+ * that Intl.Segmenter places after abbreviations and numbers.
+ */
+export interface AbbreviationDictionary {
+  /** Abbreviations that never end a sentence, such as titles ("Dr.") or "e.g.". */
+  abbreviations: readonly string[];
+  /** Whether a period after a one- or two-digit number marks an ordinal, as in German "3. Oktober". */
+  ordinalNumbers?: boolean;
+}
+
+const ENGLISH: AbbreviationDictionary = {
+  abbreviations: [
+    'Mr.', 'Mrs.', 'Ms.', 'Mx.', 'Dr.', 'Prof.', 'Rev.', 'Hon.', 'Gen.', 'Col.', 'Capt.', 'Lt.', 'Sgt.',
+    'Gov.', 'Sen.', 'Rep.', 'Pres.', 'Fr.', 'Sr.', 'Jr.', 'Mt.', 'Ft.',
+    'e.g.', 'i.e.', 'cf.', 'vs.', 'viz.', 'approx.', 'ca.', 'esp.', 'incl.', 'excl.',
+    'No.', 'Nos.', 'Vol.', 'Fig.', 'Figs.', 'Eq.', 'Ch.', 'Sec.', 'pp.', 'p.', 'para.', 'art.',
+    'Jan.', 'Feb.', 'Mar.', 'Apr.', 'Jun.', 'Jul.', 'Aug.', 'Sep.', 'Sept.', 'Oct.', 'Nov.', 'Dec.',
+  ],
+};
+
+const GERMAN: AbbreviationDictionary = {
+  abbreviations: [
+    'Hr.', 'Fr.', 'Dr.', 'Prof.', 'Dipl.', 'Ing.', 'St.',
+    'z.B.', 'd.h.', 'u.a.', 'u.ä.', 'usw.', 'bzw.', 'ca.', 'vgl.', 'ggf.', 'evtl.', 'sog.', 'inkl.',
+    'zzgl.', 'Nr.', 'Abs.', 'Abb.', 'Bd.', 'Kap.', 'S.', 'Tel.', 'Str.',
+  ],
+  ordinalNumbers: true,
+};
+
+const FRENCH: AbbreviationDictionary = {
+  abbreviations: [
+    'M.', 'MM.', 'Mme.', 'Mmes.', 'Mlle.', 'Mlles.', 'Dr.', 'Pr.', 'Me.', 'Mgr.', 'St.', 'Ste.',
+    'cf.', 'env.', 'ex.', 'p.', 'pp.', 'p.ex.', 'c.-à-d.', 'n°.', 'vol.', 'chap.', 'fig.',
+  ],
+};
+
+const SPANISH: AbbreviationDictionary = {
+  abbreviations: [
+    'Sr.', 'Sra.', 'Srta.', 'Sres.', 'Dr.', 'Dra.', 'Lic.', 'Ing.', 'Prof.', 'Dña.', 'D.', 'Ud.', 'Uds.',
+    'p.ej.', 'aprox.', 'núm.', 'pág.', 'págs.', 'vol.', 'cap.', 'fig.', 'Av.', 'Avda.', 'Cía.',
+  ],
+};
+
+// Dictionaries keyed by primary language subtag
+const DICTIONARIES: Record<string, AbbreviationDictionary> = {
+  en: ENGLISH,
+  de: GERMAN,
+  fr: FRENCH,
+  es: SPANISH,
+};
+
+/**
+ * Looks up the abbreviation dictionary for a locale by its primary language subtag.
+ * @param locale A BCP 47 language tag, e.g., "en-US" or "de".
+ * @returns The language's dictionary, falling back to English for languages without one.
+ */
+export function getAbbreviationDictionary(locale: string): AbbreviationDictionary {
+  const language = locale.split('-')[0].toLowerCase();
+  return DICTIONARIES[language] ?? ENGLISH;
+}
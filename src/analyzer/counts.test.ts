@@ -0,0 +1,92 @@
+import { TextAnalysisResult, TextAnalyzer } from './TextAnalyzer.js';
+import { countAll } from './counts.js';
+
+/**
+ * The analysis computed the way analyzeText did before the single pass, one method per metric
+ */
+function analyzeSeparately(analyzer: TextAnalyzer, text: string): TextAnalysisResult {
+  return {
+    wordCount: analyzer.countWords(text),
+    letterCount: analyzer.countLetters(text),
+    characterCount: analyzer.countCharacters(text),
+    sentenceCount: analyzer.countSentences(text),
+    paragraphCount: analyzer.countParagraphs(text),
+    readingTimeSeconds: analyzer.estimateReadingTime(text),
+    speakingTimeSeconds: analyzer.estimateSpeakingTime(text),
+  };
+}
+
+// Texts exercising the cases where word boundaries, grapheme clusters and paragraph
+// separators interact
+const CASES: Array<[string, string]> = [
+  ['en-US', ''],
+  ['en-US', '   \n\n  '],
+  ['en-US', 'Plain ASCII text. Two sentences!'],
+  ['en-US', 'Line one\r\nLine two\r\n\r\nNew paragraph\n \t\nAnother one\n\n\n'],
+  ['en-US', 'Tabs\tand  spaces, 3.14 numbers, can\'t stop, e-mail@example.com.'],
+  ['en-US', 'Café naïve coöperate é à́ ́leading mark'],
+  ['en-US', 'Emoji 👍🏽 family 👨‍👩‍👧‍👦 flags 🇯🇵🇺🇸 keycap 1️⃣ end.'],
+  ['en-US', 'Prepended ؀١٢ and ؀a and x؀ done'],
+  ['en-US', 'Soft­hyphen zero​width joiner‍here'],
+  ['en-US', '𝒜 mathematical 𝒷𝒸 letters and 𠮷 surrogate pairs.'],
+  ['ja-JP', '今日は良い天気です。明日も晴れるでしょう！\n\n「本当ですか？」と彼は言った。'],
+  ['ko-KR', '안녕하세요. 한국어 텍스트입니다.'],
+  ['zh-CN', '这是一个测试。第二句话！'],
+  ['th', 'ภาษาไทยไม่มีช่องว่างระหว่างคำ แต่มีช่องว่างระหว่างประโยค'],
+  ['ar', 'مرحبا بالعالم. هذا نص عربي.'],
+  ['hi', 'नमस्ते दुनिया। यह हिंदी पाठ है।'],
+];
+
+describe('countAll', () => {
+  it.each(CASES)('should match the individual methods for %s text %j', (locale, text) => {
+    const analyzer = new TextAnalyzer(locale);
+
+    expect(analyzer.analyzeText(text)).toEqual(analyzeSeparately(analyzer, text));
+  });
+
+  it('should match the individual methods for random text', () => {
+    // Deterministic pseudo-random mixes of ASCII, whitespace, marks, emoji parts and other scripts
+    let seed = 2024;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const pieces = [
+      'a', 'Z', '7', ' ', '  ', '\n', '\r\n', '\t', '.', '. ', '!', '\'', '-', '́', '؀',
+      '‍', '­', '👍', '🏽', '🇯', 'é', 'ß', 'Ж', '日', 'ก', 'ا', '١', '𝒜',
+    ];
+    const analyzer = new TextAnalyzer('en-US');
+
+    for (let run = 0; run < 300; run++) {
+      const length = Math.floor(random() * 30);
+      const text = Array.from({ length }, () => pieces[Math.floor(random() * pieces.length)]).join('');
+
+      expect(analyzer.analyzeText(text)).toEqual(analyzeSeparately(analyzer, text));
+    }
+  });
+
+  it('should match the individual methods for texts segmented in blocks', () => {
+    const cases: Array<[string, string]> = [
+      ['en-US', 'Sentence one. Another café 👍🏽 here! lower case. '.repeat(200)],
+      ['en-US', 'no terminators at all just words and spaces '.repeat(150)],
+      ['en-US', 'Line of text\n\nNext paragraph\r\n'.repeat(300)],
+      ['ja-JP', '日本語の文章です。次の文！'.repeat(400)],
+    ];
+    for (const [locale, text] of cases) {
+      const analyzer = new TextAnalyzer(locale);
+
+      expect(analyzer.analyzeText(text)).toEqual(analyzeSeparately(analyzer, text));
+    }
+  });
+
+  it('should count smart-mode sentences when asked', () => {
+    const analyzer = new TextAnalyzer('en-US');
+    const text = 'Dr. Smith met Mr. Jones. They talked.';
+
+    expect(countAll(analyzer, text).sentences).toBe(analyzer.countSentences(text));
+    expect(countAll(analyzer, text, { mode: 'smart' }).sentences).toBe(2);
+  });
+
+  it('should count letters and digits for character-based time estimates', () => {
+    const analyzer = new TextAnalyzer('ja-JP');
+
+    expect(countAll(analyzer, '日本語 abc 123。').rateCharacters).toBe(9);
+  });
+});
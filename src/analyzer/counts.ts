@@ -0,0 +1,196 @@
+import { SentenceCountOptions, TextAnalysisResult, TextAnalyzer, TimeEstimateOptions } from './TextAnalyzer.js';
+import {
+  READING_CHARACTERS_PER_MINUTE,
+  READING_WORDS_PER_MINUTE,
+  SPEAKING_CHARACTERS_PER_MINUTE,
+  SPEAKING_WORDS_PER_MINUTE,
+  mediaSeconds,
+  usesCharacterRate,
+} from './timing.js';
+
+/**
+ * The raw counts behind a TextAnalysisResult.
+ */
+export interface TextCounts {
+  words: number;
+  letters: number;
+  characters: number;
+  sentences: number;
+  paragraphs: number;
+  /** Letters and digits, for locales timed in characters. */
+  rateCharacters: number;
+}
+
+// Word segments whose characters are each a grapheme cluster of their own and whose letters
+// are only a-z and A-Z: printable ASCII, tabs and line feeds
+const PLAIN_SEGMENT = /^[\t\n\x20-\x7e]+$/;
+
+// Texts are segmented in blocks of about this many UTF-16 code units, since V8 takes longer
+// for each segment the longer the segmented string is
+const BLOCK_SIZE = 2048;
+
+// Block starts that no word or grapheme cluster continues across: a letter or digit after
+// whitespace or a full-width sentence terminator
+const WORD_BLOCK_START = /(?<=[\s。！？])[\p{L}\p{N}]/gu;
+
+// Block starts where a sentence always begins: after a line feed, at an uppercase letter after
+// a sentence terminator and spaces, or at a letter or digit after a full-width terminator
+const SENTENCE_BLOCK_START = /(?<=\n)|(?<=[.!?][ \t]+)(?=\p{Lu})|(?<=[。！？])(?=[\p{L}\p{N}])/gu;
+
+/**
+ * Counts words, letters, characters, sentences and paragraphs with one pass of the word
+ * segmenter and one of the sentence segmenter, giving the same results as countWords,
+ * countLetters, countCharacters, countSentences and countParagraphs.
+ *
+ * Grapheme clusters never cross word boundaries, except after a prepended concatenation mark,
+ * and a cluster starts at every printable ASCII character unless such a mark precedes it. So
+ * plain ASCII segments count one character per code unit, and only the stretches of other
+ * segments between them, with the first plain character after them, go through the grapheme
+ * segmenter. Paragraphs are tracked from the line feeds in the whitespace between words. Long
+ * texts are segmented in blocks split where the segmenters always find a boundary.
+ * @param analyzer The analyzer whose segmenters are used.
+ * @param text The text to count.
+ * @param sentences Sentence counting options.
+ * @returns The counts.
+ */
+export function countAll(analyzer: TextAnalyzer, text: string, sentences: SentenceCountOptions = {}): TextCounts {
+  const counts: TextCounts = { words: 0, letters: 0, characters: 0, sentences: 0, paragraphs: 0, rateCharacters: 0 };
+  if (!text) {
+    return counts;
+  }
+
+  let inParagraph = false;
+  // Line feeds in the whitespace since the last non-whitespace segment
+  let lineFeeds = 0;
+
+  for (const [blockStart, blockEnd] of blocks(text, WORD_BLOCK_START)) {
+    // Start of the stretch of segments not yet counted in characters, or -1
+    let stretchStart = -1;
+    for (const { segment, index: blockIndex, isWordLike } of analyzer.segment(text.slice(blockStart, blockEnd), 'word')) {
+      const index = blockStart + blockIndex;
+      if (isWordLike) {
+        counts.words++;
+      }
+
+      if (PLAIN_SEGMENT.test(segment)) {
+        let characters = segment.length;
+        if (stretchStart !== -1) {
+          // The first character may still join a prepended mark at the end of the stretch
+          counts.characters += analyzer.countCharacters(text.slice(stretchStart, index + 1));
+          characters--;
+          stretchStart = -1;
+        }
+        counts.characters += characters;
+        if (isWordLike) {
+          countAsciiLetters(segment, counts);
+        }
+      } else {
+        if (stretchStart === -1) {
+          stretchStart = index;
+        }
+        counts.letters += segment.match(/\p{L}/gu)?.length ?? 0;
+        counts.rateCharacters += segment.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+      }
+
+      if (segment.trim() === '') {
+        if (segment.includes('\n')) {
+          lineFeeds++;
+        }
+        // Two line feeds with only whitespace between them separate paragraphs
+        if (lineFeeds >= 2) {
+          inParagraph = false;
+        }
+      } else {
+        lineFeeds = 0;
+        if (!inParagraph) {
+          counts.paragraphs++;
+          inParagraph = true;
+        }
+      }
+    }
+    if (stretchStart !== -1) {
+      counts.characters += analyzer.countCharacters(text.slice(stretchStart, blockEnd));
+    }
+  }
+
+  if (sentences.mode === 'smart') {
+    counts.sentences = analyzer.countSentences(text, sentences);
+  } else {
+    for (const [blockStart, blockEnd] of blocks(text, SENTENCE_BLOCK_START)) {
+      for (const { segment } of analyzer.segment(text.slice(blockStart, blockEnd), 'sentence')) {
+        if (segment.trim() !== '') {
+          counts.sentences++;
+        }
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Turns counts into the metrics of analyzeText, estimating the reading and speaking time.
+ * @param counts The counts of the text.
+ * @param locale The locale of the text, which decides whether time is measured in words or characters.
+ * @param options Reading rates and the number of images and code blocks outside the text.
+ * @returns The analysis result.
+ */
+export function analysisFromCounts(counts: TextCounts, locale: string, options: TimeEstimateOptions = {}): TextAnalysisResult {
+  const byCharacter = usesCharacterRate(locale);
+  const units = byCharacter ? counts.rateCharacters : counts.words;
+  const seconds = (wordsPerMinute: number, charactersPerMinute: number) =>
+    Math.ceil(units * 60 / (byCharacter ? charactersPerMinute : wordsPerMinute));
+
+  return {
+    wordCount: counts.words,
+    letterCount: counts.letters,
+    characterCount: counts.characters,
+    sentenceCount: counts.sentences,
+    paragraphCount: counts.paragraphs,
+    readingTimeSeconds: seconds(
+      options.wordsPerMinute ?? READING_WORDS_PER_MINUTE,
+      options.charactersPerMinute ?? READING_CHARACTERS_PER_MINUTE
+    ) + mediaSeconds(options.images ?? 0, options.codeBlocks ?? 0),
+    speakingTimeSeconds: seconds(
+      options.wordsPerMinute ?? SPEAKING_WORDS_PER_MINUTE,
+      options.charactersPerMinute ?? SPEAKING_CHARACTERS_PER_MINUTE
+    ),
+  };
+}
+
+/**
+ * Adds the letters and digits of a printable ASCII word.
+ * @param segment The word.
+ * @param counts The counts to add to.
+ */
+function countAsciiLetters(segment: string, counts: TextCounts): void {
+  for (let index = 0; index < segment.length; index++) {
+    const code = segment.charCodeAt(index) | 0x20;
+    if (code >= 0x61 && code <= 0x7a) {
+      counts.letters++;
+      counts.rateCharacters++;
+    } else if (code >= 0x30 && code <= 0x39) {
+      counts.rateCharacters++;
+    }
+  }
+}
+
+/**
+ * Splits a text into blocks of at least BLOCK_SIZE code units, each but the first starting at
+ * a match of a pattern.
+ * @param text The text to split.
+ * @param start A global pattern matching where a block may start.
+ * @returns The start and end offset of each block.
+ */
+function* blocks(text: string, start: RegExp): Generator<[number, number]> {
+  let blockStart = 0;
+  while (blockStart < text.length) {
+    let blockEnd = text.length;
+    if (blockStart + BLOCK_SIZE < text.length) {
+      start.lastIndex = blockStart + BLOCK_SIZE;
+      blockEnd = start.exec(text)?.index ?? text.length;
+    }
+    yield [blockStart, blockEnd];
+    blockStart = blockEnd;
+  }
+}
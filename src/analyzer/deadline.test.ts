@@ -0,0 +1,70 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { TimeoutError, checkDeadline, withDeadline } from './deadline.js';
+import { extractHtmlText } from './html.js';
+import { extractMarkdownText } from './markdown.js';
+
+/**
+ * Busy-waits, since analysis is synchronous and never yields to timers.
+ */
+function spin(milliseconds: number): void {
+  const end = Date.now() + milliseconds;
+  while (Date.now() <= end) {
+    // Waiting
+  }
+}
+
+describe('deadline', () => {
+  it('should never throw outside withDeadline', () => {
+    expect(() => checkDeadline()).not.toThrow();
+  });
+
+  it('should throw once the time budget is spent', () => {
+    withDeadline(5, () => {
+      expect(() => checkDeadline()).not.toThrow();
+      spin(10);
+      expect(() => checkDeadline()).toThrow(TimeoutError);
+      expect(() => checkDeadline()).toThrow('Analysis did not finish within 5 ms');
+    });
+  });
+
+  it('should only read the clock on every 64th iteration', () => {
+    withDeadline(1, () => {
+      spin(5);
+      expect(() => checkDeadline(63)).not.toThrow();
+      expect(() => checkDeadline(64)).toThrow(TimeoutError);
+    });
+  });
+
+  it('should keep the deadline across awaits', async () => {
+    await withDeadline(5, async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(() => checkDeadline()).toThrow(TimeoutError);
+    });
+    expect(() => checkDeadline()).not.toThrow();
+  });
+
+  it('should abandon long analysis', () => {
+    const analyzer = new TextAnalyzer('en-US');
+    const text = 'word '.repeat(50000);
+
+    expect(() => withDeadline(1, () => {
+      spin(2);
+      return analyzer.countWords(text);
+    })).toThrow(TimeoutError);
+    expect(withDeadline(60000, () => analyzer.countWords('a few words'))).toBe(3);
+  });
+
+  it('should abandon long Markdown and HTML extraction', () => {
+    const markdown = '- *item* with [a link](https://example.com)\n'.repeat(1000);
+    const html = '<li><em>item</em> with <a href="https://example.com">a link</a></li>'.repeat(1000);
+
+    expect(() => withDeadline(1, () => {
+      spin(2);
+      return extractMarkdownText(markdown);
+    })).toThrow(TimeoutError);
+    expect(() => withDeadline(1, () => {
+      spin(2);
+      return extractHtmlText(html);
+    })).toThrow(TimeoutError);
+  });
+});
@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Loop iterations between two clock reads in checkDeadline
+const CHECK_INTERVAL = 64;
+
+/**
+ * Error thrown when an analysis runs past the deadline of its call.
+ */
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Analysis did not finish within ${timeoutMs} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+interface Deadline {
+  /** Epoch milliseconds after which the analysis is abandoned. */
+  expiresAt: number;
+  timeoutMs: number;
+}
+
+// The deadline of the call the current code runs for, kept across awaits
+const deadlines = new AsyncLocalStorage<Deadline>();
+
+/**
+ * Runs a callback, including the asynchronous work it starts, with a time budget that
+ * checkDeadline enforces.
+ * @param timeoutMs The time budget in milliseconds.
+ * @param callback The work to run.
+ * @returns The callback's return value.
+ */
+export function withDeadline<T>(timeoutMs: number, callback: () => T): T {
+  return deadlines.run({ expiresAt: Date.now() + timeoutMs, timeoutMs }, callback);
+}
+
+/**
+ * Throws once the time budget of the current call is spent. Analysis is synchronous and cannot
+ * be interrupted from outside, so long loops call this as they go; the clock is only read on
+ * every 64th iteration. Outside withDeadline this never throws.
+ * @param iteration The loop iteration, or 0 to always read the clock.
+ * @throws TimeoutError if the deadline has passed.
+ */
+export function checkDeadline(iteration: number = 0): void {
+  if (iteration % CHECK_INTERVAL !== 0) {
+    return;
+  }
+  const deadline = deadlines.getStore();
+  if (deadline && Date.now() > deadline.expiresAt) {
+    throw new TimeoutError(deadline.timeoutMs);
+  }
+}
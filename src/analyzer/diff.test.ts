@@ -0,0 +1,66 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { diffWords, formatWordDiff } from './diff.js';
+
+/**
+ * Length of the longest common subsequence of two word lists, by dynamic programming
+ */
+function lcsLength(a: string[], b: string[]): number {
+  let previous = new Array(b.length + 1).fill(0);
+  for (const word of a) {
+    const current = [0];
+    for (let j = 0; j < b.length; j++) {
+      current.push(word === b[j] ? previous[j] + 1 : Math.max(previous[j + 1], current[j]));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+describe('diffWords', () => {
+  const analyzer = new TextAnalyzer('en-US');
+
+  it('should report no changes for identical texts', () => {
+    const result = diffWords(analyzer, 'Same words here.', 'Same words here.');
+
+    expect(result).toMatchObject({ added: 0, removed: 0, unchanged: 3, changePercentage: 0 });
+    expect(result.chunks).toEqual([{ operation: 'equal', text: 'Same words here.', words: 3 }]);
+  });
+
+  it('should count added, removed and unchanged words', () => {
+    const result = diffWords(analyzer, 'The quick brown fox jumps.', 'The slow brown fox jumps high.');
+
+    expect(result).toMatchObject({ added: 2, removed: 1, unchanged: 4 });
+    // 3 changed words out of 5 + 6
+    expect(result.changePercentage).toBe(27.27);
+    expect(formatWordDiff(result.chunks)).toBe('The [-quick-]{+slow+} brown fox jumps {+high+}.');
+  });
+
+  it('should treat texts without common words as fully changed', () => {
+    const result = diffWords(analyzer, 'alpha beta', 'gamma delta epsilon');
+
+    expect(result).toMatchObject({ added: 3, removed: 2, unchanged: 0, changePercentage: 100 });
+    expect(formatWordDiff(result.chunks)).toBe('[-alpha beta-]{+gamma delta epsilon+}');
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords(analyzer, '', '')).toEqual({ added: 0, removed: 0, unchanged: 0, changePercentage: 0, chunks: [] });
+    expect(diffWords(analyzer, '', 'New text')).toMatchObject({ added: 2, changePercentage: 100 });
+  });
+
+  it('should find a longest common subsequence', () => {
+    // Deterministic pseudo-random word lists from a small vocabulary
+    let seed = 42;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const words = (length: number) => Array.from({ length }, () => ['a', 'b', 'c', 'd', 'e'][Math.floor(random() * 5)]);
+
+    for (let run = 0; run < 50; run++) {
+      const original = words(Math.floor(random() * 40));
+      const revised = words(Math.floor(random() * 40));
+      const result = diffWords(analyzer, original.join(' '), revised.join(' '));
+
+      expect(result.unchanged).toBe(lcsLength(original, revised));
+      expect(result.unchanged + result.removed).toBe(original.length);
+      expect(result.unchanged + result.added).toBe(revised.length);
+    }
+  });
+});
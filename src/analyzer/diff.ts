@@ -0,0 +1,261 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { checkDeadline } from './deadline.js';
+
+/**
+ * Whether a run of tokens is in both texts, only in the revised text or only in the original.
+ */
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffChunk {
+  operation: DiffOperation;
+  /** The tokens of the run with the whitespace between them, from the revised text for equal runs. */
+  text: string;
+  /** Number of words in the run, not counting punctuation. */
+  words: number;
+}
+
+export interface WordDiffResult {
+  /** Words only in the revised text. */
+  added: number;
+  /** Words only in the original text. */
+  removed: number;
+  /** Words in both texts, in the same order. */
+  unchanged: number;
+  /**
+   * Added and removed words as a share of the words of both texts, in percent: 0 for texts with
+   * the same words, 100 for texts without a word in common. Rounded to 2 decimals.
+   */
+  changePercentage: number;
+  /** The runs of equal, inserted and deleted tokens, in order. */
+  chunks: DiffChunk[];
+}
+
+interface Token {
+  value: string;
+  isWord: boolean;
+  /** Whitespace before the token in its text. */
+  space: string;
+}
+
+/**
+ * Compares two texts word by word with Myers' diff algorithm. Punctuation takes part in the
+ * comparison, so that the chunks read naturally, but only words are counted.
+ * @param analyzer The analyzer whose word segmenter splits the texts.
+ * @param original The earlier version.
+ * @param revised The later version.
+ * @returns The word counts of the changes and the chunks of the diff.
+ */
+export function diffWords(analyzer: TextAnalyzer, original: string, revised: string): WordDiffResult {
+  const originalTokens = tokenize(analyzer, original);
+  const revisedTokens = tokenize(analyzer, revised);
+
+  const operations: Array<{ operation: DiffOperation; token: Token }> = [];
+  diffRange(
+    originalTokens.map(token => token.value),
+    revisedTokens.map(token => token.value),
+    0, originalTokens.length, 0, revisedTokens.length,
+    (operation, originalIndex, revisedIndex) => {
+      operations.push({
+        operation,
+        token: operation === 'delete' ? originalTokens[originalIndex] : revisedTokens[revisedIndex],
+      });
+    }
+  );
+
+  const counts = { equal: 0, insert: 0, delete: 0 };
+  const chunks: DiffChunk[] = [];
+  for (const { operation, token } of operations) {
+    const words = token.isWord ? 1 : 0;
+    counts[operation] += words;
+    const last = chunks[chunks.length - 1];
+    if (last && last.operation === operation) {
+      last.text += token.space + token.value;
+      last.words += words;
+    } else {
+      chunks.push({ operation, text: (chunks.length > 0 ? token.space : '') + token.value, words });
+    }
+  }
+
+  const total = 2 * counts.equal + counts.insert + counts.delete;
+  return {
+    added: counts.insert,
+    removed: counts.delete,
+    unchanged: counts.equal,
+    changePercentage: total > 0 ? Math.round((counts.insert + counts.delete) / total * 10000) / 100 : 0,
+    chunks,
+  };
+}
+
+/**
+ * Renders diff chunks as a word diff, marking removed text as [-text-] and added text as {+text+}
+ * like `git diff --word-diff=plain`.
+ * @param chunks The chunks returned by diffWords.
+ * @returns The revised text with the changes marked inline.
+ */
+export function formatWordDiff(chunks: DiffChunk[]): string {
+  return chunks
+    .map((chunk, index) => {
+      if (chunk.operation === 'equal') {
+        return chunk.text;
+      }
+      // Keep the whitespace before a change outside its markers, once for a replacement
+      const [, space, text] = chunk.text.match(/^(\s*)([\s\S]*)$/) as RegExpMatchArray;
+      if (chunk.operation === 'delete') {
+        return `${space}[-${text}-]`;
+      }
+      return `${index > 0 && chunks[index - 1].operation === 'delete' ? '' : space}{+${text}+}`;
+    })
+    .join('');
+}
+
+/**
+ * Splits a text into word and punctuation tokens, remembering the whitespace before each.
+ * @param analyzer The analyzer whose word segmenter splits the text.
+ * @param text The text to split.
+ * @returns The tokens in order.
+ */
+function tokenize(analyzer: TextAnalyzer, text: string): Token[] {
+  const tokens: Token[] = [];
+  if (!text) {
+    return tokens;
+  }
+  let space = '';
+  for (const segment of analyzer.segment(text, 'word')) {
+    if (segment.segment.trim() === '') {
+      space += segment.segment;
+    } else {
+      tokens.push({ value: segment.segment, isWord: segment.isWordLike ?? false, space });
+      space = '';
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Diffs a range of two token lists, reporting each operation in order. Common prefixes and
+ * suffixes are matched directly; the rest is split at the middle of an optimal edit path and
+ * both halves are diffed recursively, which needs memory linear in the input size.
+ * @param a The original tokens.
+ * @param b The revised tokens.
+ * @param aStart Start of the range in a.
+ * @param aEnd End of the range in a.
+ * @param bStart Start of the range in b.
+ * @param bEnd End of the range in b.
+ * @param emit Receives each operation with the index of its token in a or b.
+ */
+function diffRange(
+  a: string[], b: string[],
+  aStart: number, aEnd: number, bStart: number, bEnd: number,
+  emit: (operation: DiffOperation, aIndex: number, bIndex: number) => void
+): void {
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    emit('equal', aStart++, bStart++);
+  }
+  let suffix = 0;
+  while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+    suffix++;
+  }
+
+  if (aStart === aEnd - suffix) {
+    for (let index = bStart; index < bEnd - suffix; index++) {
+      emit('insert', aStart, index);
+    }
+  } else if (bStart === bEnd - suffix) {
+    for (let index = aStart; index < aEnd - suffix; index++) {
+      emit('delete', index, bStart);
+    }
+  } else {
+    const [x, y] = findMiddle(a, b, aStart, aEnd - suffix, bStart, bEnd - suffix);
+    diffRange(a, b, aStart, x, bStart, y, emit);
+    diffRange(a, b, x, aEnd - suffix, y, bEnd - suffix, emit);
+  }
+
+  for (let index = 0; index < suffix; index++) {
+    emit('equal', aEnd - suffix + index, bEnd - suffix + index);
+  }
+}
+
+/**
+ * Finds a point in the middle of a shortest edit path between two ranges, by searching forward
+ * from the start and backward from the end until the paths overlap (Myers, 1986, section 4b).
+ * @param a The original tokens.
+ * @param b The revised tokens.
+ * @param aStart Start of the range in a.
+ * @param aEnd End of the range in a.
+ * @param bStart Start of the range in b.
+ * @param bEnd End of the range in b.
+ * @returns Indices in a and b that split the ranges.
+ */
+function findMiddle(
+  a: string[], b: string[],
+  aStart: number, aEnd: number, bStart: number, bEnd: number
+): [number, number] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  // Furthest x reached on each diagonal k = x - y, forward from the start and backward from the end
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet during a forward step, otherwise during a backward step
+  const checkForward = delta % 2 !== 0;
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    checkDeadline(d);
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1]) ? forward[index + 1] : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const backwardIndex = offset + delta - k;
+        if (backwardIndex >= 0 && backwardIndex < backward.length && backward[backwardIndex] !== -1 && x >= n - backward[backwardIndex]) {
+          return [aStart + x, bStart + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && backward[index - 1] < backward[index + 1]) ? backward[index + 1] : backward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < forward.length && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex];
+          const forwardY = forwardX - (forwardIndex - offset);
+          if (forwardX >= n - x) {
+            return [aStart + forwardX, bStart + forwardY];
+          }
+        }
+      }
+    }
+  }
+
+  // No common token: the ranges are replaced entirely
+  return [aEnd, bStart];
+}
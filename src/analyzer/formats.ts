@@ -0,0 +1,70 @@
+import { MarkdownExclusions, MarkdownOptions, MarkdownSection, extractMarkdownText } from './markdown.js';
+import { HtmlExclusions, HtmlOptions, extractHtmlText } from './html.js';
+
+/**
+ * Input formats understood by the analyzer tools: plain text is analyzed as-is,
+ * other formats are reduced to their visible prose first.
+ */
+export type TextFormat = 'text' | 'markdown' | 'html' | 'xml';
+
+export interface FormatOptions {
+  format?: TextFormat;
+  markdown?: MarkdownOptions;
+  /** Options for HTML and XML input; the xml switch is implied by the "xml" format. */
+  html?: Omit<HtmlOptions, 'xml'>;
+}
+
+/**
+ * Elements left out of the prose, depending on the input format.
+ */
+export type FormatExclusions = MarkdownExclusions | HtmlExclusions;
+
+export interface PreparedText {
+  /** The prose to analyze. */
+  text: string;
+  /** Elements left out of the prose; only present for formats other than plain text. */
+  excluded?: FormatExclusions;
+  /** The prose split at headings; only present for Markdown. */
+  sections?: MarkdownSection[];
+}
+
+/**
+ * Reduces text in the given format to the prose that should be analyzed.
+ * @param text The input text.
+ * @param options The input format and its format-specific options.
+ * @returns The prose to analyze, with a report of excluded elements for non-plain formats.
+ */
+export function prepareText(text: string, options: FormatOptions = {}): PreparedText {
+  switch (options.format ?? 'text') {
+    case 'markdown':
+      return extractMarkdownText(text, options.markdown);
+    case 'html':
+      return extractHtmlText(text, { ...options.html, xml: false });
+    case 'xml':
+      return extractHtmlText(text, { ...options.html, xml: true });
+    default:
+      return { text };
+  }
+}
+
+// Input formats implied by common file extensions
+const EXTENSION_FORMATS: Record<string, TextFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.mdown': 'markdown',
+  '.mkd': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xhtml': 'html',
+  '.xml': 'xml',
+};
+
+/**
+ * Infers the input format of a file from its extension.
+ * @param fileName The file name or path.
+ * @returns The implied format, or "text" for unrecognized extensions.
+ */
+export function formatFromFileName(fileName: string): TextFormat {
+  const match = fileName.toLowerCase().match(/\.[^./\\]+$/);
+  return (match && EXTENSION_FORMATS[match[0]]) || 'text';
+}
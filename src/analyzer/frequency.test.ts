@@ -0,0 +1,94 @@
+import { analyzeWordFrequency } from './frequency.js';
+import { getStopWords } from './stopwords.js';
+import { TextAnalyzer } from './TextAnalyzer.js';
+
+describe('getStopWords', () => {
+  it('should return the list for the locale language', () => {
+    expect(getStopWords('en-US').has('the')).toBe(true);
+    expect(getStopWords('de-AT').has('und')).toBe(true);
+  });
+
+  it('should return an empty list for languages without one', () => {
+    expect(getStopWords('ja').size).toBe(0);
+  });
+});
+
+describe('analyzeWordFrequency', () => {
+  const analyzer = new TextAnalyzer();
+
+  it('should return no terms for empty text', () => {
+    expect(analyzeWordFrequency(analyzer, '')).toEqual({ totalTerms: 0, uniqueTerms: 0, terms: [] });
+  });
+
+  it('should rank words by count with percentages of all words', () => {
+    const result = analyzeWordFrequency(analyzer, 'Apples and pears. Apples are sweet, apples are red.');
+    expect(result.totalTerms).toBe(9);
+    expect(result.terms[0]).toEqual({ term: 'apples', count: 3, percentage: 33.33 });
+    expect(result.terms.map(term => term.term)).toEqual(['apples', 'pears', 'red', 'sweet']);
+  });
+
+  it('should fold case using the locale unless case-sensitive', () => {
+    expect(analyzeWordFrequency(analyzer, 'Word word WORD').terms).toEqual([
+      { term: 'word', count: 3, percentage: 100 },
+    ]);
+    expect(analyzeWordFrequency(analyzer, 'Word word WORD', { caseSensitive: true }).terms.map(term => term.count))
+      .toEqual([1, 1, 1]);
+
+    const turkish = new TextAnalyzer('tr');
+    expect(analyzeWordFrequency(turkish, 'IŞIK').terms[0].term).toBe('ışık');
+  });
+
+  it('should keep stop words when asked and accept extra stop words', () => {
+    const text = 'The cat and the hat';
+    expect(analyzeWordFrequency(analyzer, text, { excludeStopWords: false }).terms[0])
+      .toEqual({ term: 'the', count: 2, percentage: 40 });
+    expect(analyzeWordFrequency(analyzer, text, { stopWords: ['HAT'] }).terms.map(term => term.term)).toEqual(['cat']);
+  });
+
+  it('should use the stop words of the analyzer locale', () => {
+    const german = new TextAnalyzer('de');
+    expect(analyzeWordFrequency(german, 'Der Hund und die Katze').terms.map(term => term.term)).toEqual(['hund', 'katze']);
+  });
+
+  it('should drop words shorter than the minimum length', () => {
+    const result = analyzeWordFrequency(analyzer, 'Go big or go home, Bob', { minLength: 4 });
+    expect(result.terms.map(term => term.term)).toEqual(['home']);
+  });
+
+  it('should count n-grams within sentences only', () => {
+    const result = analyzeWordFrequency(analyzer, 'Machine learning works. Machine learning scales. Learning machine.', { ngram: 2 });
+    expect(result.totalTerms).toBe(5);
+    expect(result.terms).toEqual([
+      { term: 'machine learning', count: 2, percentage: 40 },
+      { term: 'learning machine', count: 1, percentage: 20 },
+      { term: 'learning scales', count: 1, percentage: 20 },
+      { term: 'learning works', count: 1, percentage: 20 },
+    ]);
+  });
+
+  it('should drop n-grams that start or end with a stop word only', () => {
+    const result = analyzeWordFrequency(analyzer, 'From my point of view it works.', { ngram: 3 });
+    expect(result.terms.map(term => term.term)).toEqual(['point of view', 'view it works']);
+  });
+
+  it('should limit the number of terms', () => {
+    const result = analyzeWordFrequency(analyzer, 'one two two three three three', { limit: 2 });
+    expect(result.uniqueTerms).toBe(3);
+    expect(result.terms.map(term => term.term)).toEqual(['three', 'two']);
+  });
+
+  it('should rank terms by TF-IDF against other documents', () => {
+    const result = analyzeWordFrequency(analyzer, 'Solar panels and solar power reduce power bills.', {
+      documents: ['Power cuts are common.', 'Nuclear power is controversial.'],
+    });
+    const solar = result.terms.find(term => term.term === 'solar');
+    const power = result.terms.find(term => term.term === 'power');
+
+    expect(solar).toMatchObject({ count: 2, documentFrequency: 1 });
+    expect(power).toMatchObject({ count: 2, documentFrequency: 3 });
+    // total = 8 words; idf = ln(4 / 2) + 1 and ln(4 / 4) + 1
+    expect(solar?.tfidf).toBeCloseTo(2 / 8 * (Math.log(2) + 1), 5);
+    expect(power?.tfidf).toBeCloseTo(2 / 8, 5);
+    expect(result.terms[0].term).toBe('solar');
+  });
+});
@@ -0,0 +1,127 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { round } from './rounding.js';
+import { getStopWords } from './stopwords.js';
+
+export interface WordFrequencyOptions {
+  /** Number of words per term: 1 for single words, 2 for bigrams, 3 for trigrams (default 1). */
+  ngram?: number;
+  /** Keep the original case instead of folding terms to lowercase (default false). */
+  caseSensitive?: boolean;
+  /** Drop terms that are stop words in the analyzer's locale (default true). */
+  excludeStopWords?: boolean;
+  /** Additional words to drop, matched case-insensitively. */
+  stopWords?: string[];
+  /** Drop words shorter than this many characters (default 1). */
+  minLength?: number;
+  /** Maximum number of terms to return (defaults to all terms). */
+  limit?: number;
+  /**
+   * Other documents of the corpus. When given, terms are ranked by TF-IDF, so terms that are
+   * frequent in the text but rare in the other documents rank first.
+   */
+  documents?: string[];
+}
+
+export interface TermFrequency {
+  term: string;
+  count: number;
+  /** Share of all terms in the text, in percent (keyword density for single words). */
+  percentage: number;
+  /** Number of documents containing the term, counting the text itself; TF-IDF mode only. */
+  documentFrequency?: number;
+  /** Term frequency times smoothed inverse document frequency; TF-IDF mode only. */
+  tfidf?: number;
+}
+
+export interface WordFrequencyResult {
+  /** Number of terms in the text before filtering. */
+  totalTerms: number;
+  /** Number of distinct terms after filtering. */
+  uniqueTerms: number;
+  /** Terms ranked by count, or by TF-IDF when documents are given. */
+  terms: TermFrequency[];
+}
+
+/**
+ * Counts how often each word or n-gram occurs in a text.
+ * N-grams are built from consecutive words within a sentence. Stop words and short words are
+ * dropped as single-word terms; n-grams are dropped only when they start or end with one,
+ * so "point of view" is still counted as a trigram.
+ * @param analyzer The analyzer used to split sentences and words.
+ * @param text The text to analyze.
+ * @param options N-gram size, case folding, filters, limit and TF-IDF corpus.
+ * @returns The ranked terms.
+ */
+export function analyzeWordFrequency(
+  analyzer: TextAnalyzer,
+  text: string,
+  options: WordFrequencyOptions = {}
+): WordFrequencyResult {
+  const { counts, total } = countTerms(analyzer, text, options);
+  const terms: TermFrequency[] = [...counts].map(([term, count]) => ({
+    term,
+    count,
+    percentage: round(100 * count / total, 2),
+  }));
+
+  if (options.documents) {
+    // Each other document only contributes which terms it contains
+    const documentTerms = options.documents.map(document => countTerms(analyzer, document, options).counts);
+    const documentCount = documentTerms.length + 1;
+    for (const entry of terms) {
+      const documentFrequency = 1 + documentTerms.filter(other => other.has(entry.term)).length;
+      // Smoothed IDF, which stays positive for terms found in every document
+      const idf = Math.log((1 + documentCount) / (1 + documentFrequency)) + 1;
+      entry.documentFrequency = documentFrequency;
+      entry.tfidf = round(entry.count / total * idf, 6);
+    }
+  }
+
+  const collator = new Intl.Collator(analyzer.locale);
+  terms.sort((a, b) => (b.tfidf ?? 0) - (a.tfidf ?? 0) || b.count - a.count || collator.compare(a.term, b.term));
+
+  return {
+    totalTerms: total,
+    uniqueTerms: terms.length,
+    terms: options.limit === undefined ? terms : terms.slice(0, options.limit),
+  };
+}
+
+/**
+ * Counts the terms of a text that pass the filters.
+ * @param analyzer The analyzer used to split sentences and words.
+ * @param text The text to analyze.
+ * @param options N-gram size, case folding and filters.
+ * @returns Counts keyed by term, and the number of terms before filtering.
+ */
+function countTerms(
+  analyzer: TextAnalyzer,
+  text: string,
+  options: WordFrequencyOptions
+): { counts: Map<string, number>; total: number } {
+  const size = options.ngram ?? 1;
+  const minLength = options.minLength ?? 1;
+  const stopWords = new Set([
+    ...((options.excludeStopWords ?? true) ? getStopWords(analyzer.locale) : []),
+    ...(options.stopWords ?? []).map(word => word.toLocaleLowerCase(analyzer.locale)),
+  ]);
+  const isFiltered = (word: string) =>
+    stopWords.has(word.toLocaleLowerCase(analyzer.locale)) || analyzer.countCharacters(word) < minLength;
+
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const sentence of analyzer.getSentences(text)) {
+    const words = analyzer.getWords(sentence);
+    for (let start = 0; start + size <= words.length; start++) {
+      total++;
+      if (isFiltered(words[start]) || isFiltered(words[start + size - 1])) {
+        continue;
+      }
+      const ngram = words.slice(start, start + size).join(' ');
+      const term = options.caseSensitive ? ngram : ngram.toLocaleLowerCase(analyzer.locale);
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+  }
+
+  return { counts, total };
+}
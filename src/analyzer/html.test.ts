@@ -0,0 +1,114 @@
+import { decodeEntities, extractHtmlText } from './html.js';
+import { TextAnalyzer } from './TextAnalyzer.js';
+
+describe('decodeEntities', () => {
+  it('should decode named and numeric references', () => {
+    expect(decodeEntities('Fish &amp; chips &lt;3')).toBe('Fish & chips <3');
+    expect(decodeEntities('&#8220;hi&#x201D; &mdash; &hellip;')).toBe('“hi” — …');
+    expect(decodeEntities('&#x1F680;')).toBe('🚀');
+  });
+
+  it('should leave unknown references unchanged', () => {
+    expect(decodeEntities('&unknown; & more')).toBe('&unknown; & more');
+  });
+});
+
+describe('extractHtmlText', () => {
+  it('should return empty text for empty input', () => {
+    expect(extractHtmlText('')).toEqual({ text: '', excluded: { scripts: 0, styles: 0, comments: 0 } });
+    expect(extractHtmlText(null as any).text).toBe('');
+  });
+
+  it('should strip tags and attributes but keep inline text together', () => {
+    expect(extractHtmlText('<p class="intro" data-x=\'1\'>Hello <b>wor</b>ld, <a href="https://example.com">link</a>!</p>').text)
+      .toBe('Hello world, link!');
+  });
+
+  it('should skip scripts, styles and comments', () => {
+    const html = '<style>p { color: red; }</style><p>Visible</p><script>var hidden = "words";</script><!-- note -->';
+    expect(extractHtmlText(html)).toEqual({
+      text: 'Visible',
+      excluded: { scripts: 1, styles: 1, comments: 1 },
+    });
+  });
+
+  it('should skip the document head and hidden elements', () => {
+    const html = '<!DOCTYPE html><html><head><title>Title</title><meta charset="utf-8"></head>'
+      + '<body><p>Shown</p><div hidden>Not shown</div></body></html>';
+    expect(extractHtmlText(html).text).toBe('Shown');
+  });
+
+  it('should treat block-level elements as paragraph boundaries', () => {
+    const html = '<h1>Title</h1><p>First paragraph.</p><p>Second<br>line.</p><ul><li>One</li><li>Two</li></ul>';
+    expect(extractHtmlText(html).text).toBe('Title\n\nFirst paragraph.\n\nSecond\nline.\n\nOne\n\nTwo');
+  });
+
+  it('should collapse whitespace except inside pre', () => {
+    expect(extractHtmlText('<p>a\n   b\t c</p><pre>x  y\nz</pre>').text).toBe('a b c\n\nx  y\nz');
+  });
+
+  it('should separate table cells', () => {
+    expect(extractHtmlText('<table><tr><th>Name</th><th>Value</th></tr><tr><td>a</td><td>1</td></tr></table>').text)
+      .toBe('Name Value\na 1');
+  });
+
+  it('should handle unclosed paragraphs', () => {
+    expect(extractHtmlText('<p>One<p>Two').text).toBe('One\n\nTwo');
+  });
+
+  it('should close elements implicitly and ignore stray end tags', () => {
+    expect(extractHtmlText('<div>a<b>b<i>c</div>d</i></span>e').text).toBe('abc\n\nde');
+  });
+
+  it('should run in linear time on malformed input', () => {
+    const inputs = [
+      '<a '.repeat(20_000),
+      '<!x'.repeat(20_000),
+      '<b>'.repeat(20_000) + '</i>'.repeat(20_000),
+      '<div>'.repeat(20_000) + 'x' + '</div>'.repeat(20_000),
+      'a' + ' '.repeat(60_000) + 'b',
+    ];
+    for (const html of inputs) {
+      const start = Date.now();
+      extractHtmlText(html);
+      expect(Date.now() - start).toBeLessThan(1000);
+    }
+  });
+
+  describe('selector', () => {
+    const html = '<header>Site</header><main id="content"><article class="post featured">Post body</article>'
+      + '<article class="post">Second post</article></main><footer>Footer</footer>';
+
+    it('should restrict analysis to matching elements', () => {
+      expect(extractHtmlText(html, { selector: 'main' }).text).toBe('Post body\n\nSecond post');
+      expect(extractHtmlText(html, { selector: '#content' }).text).toBe('Post body\n\nSecond post');
+      expect(extractHtmlText(html, { selector: 'article.featured' }).text).toBe('Post body');
+      expect(extractHtmlText(html, { selector: 'header, footer' }).text).toBe('Site\n\nFooter');
+    });
+
+    it('should not count nested matches twice', () => {
+      expect(extractHtmlText('<div>a<div>b</div></div>', { selector: 'div' }).text).toBe('a\n\nb');
+    });
+
+    it('should reject selectors that match nothing or are unsupported', () => {
+      expect(() => extractHtmlText(html, { selector: 'aside' })).toThrow('did not match any element');
+      expect(() => extractHtmlText(html, { selector: 'main > article' })).toThrow('Unsupported selector');
+    });
+  });
+
+  describe('xml', () => {
+    it('should separate words at every tag and keep CDATA text', () => {
+      const xml = '<?xml version="1.0"?><doc><title>Hello</title><body>World<![CDATA[ & <more> ]]></body></doc>';
+      expect(extractHtmlText(xml, { xml: true }).text).toBe('Hello World & <more>');
+    });
+  });
+
+  it('should produce prose the analyzer counts correctly', () => {
+    const analyzer = new TextAnalyzer();
+    const html = '<article><h2>News</h2><p>Fish &amp; chips are <em>great</em>.</p><p>Really.</p></article>';
+    const { text } = extractHtmlText(html);
+
+    expect(analyzer.countWords(text)).toBe(6);
+    expect(analyzer.countParagraphs(text)).toBe(3);
+  });
+});
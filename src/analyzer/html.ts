@@ -0,0 +1,329 @@
+import { checkDeadline } from './deadline.js';
+
+/**
+ * Options for extracting prose from HTML or XML.
+ */
+export interface HtmlOptions {
+  /**
+   * Restricts analysis to elements matching a CSS-like selector, such as "article", "main",
+   * "#content", ".post-body" or "div.entry". Compound selectors of a tag name, an id and
+   * classes are supported, and several selectors can be separated by commas.
+   */
+  selector?: string;
+  /** Parse as generic XML: every tag separates words and no element is treated specially. */
+  xml?: boolean;
+}
+
+/**
+ * Number of HTML elements whose content was left out of the extracted prose.
+ */
+export interface HtmlExclusions {
+  scripts: number;
+  styles: number;
+  comments: number;
+}
+
+export interface HtmlExtraction {
+  /** Visible prose, with block-level elements separated by blank lines. */
+  text: string;
+  excluded: HtmlExclusions;
+}
+
+interface SimpleSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+}
+
+interface OpenElement {
+  name: string;
+  /** Whether this element starts a selected region. */
+  selected: boolean;
+  /** Whether this element starts a hidden region. */
+  hidden: boolean;
+}
+
+// Elements whose content is never visible prose
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'template', 'head', 'title', 'noscript', 'svg']);
+
+// Elements that start and end a paragraph
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody',
+  'thead', 'tfoot', 'ul', 'body', 'html',
+]);
+
+// Elements that end a line but not a paragraph
+const LINE_ELEMENTS = new Set(['br', 'tr']);
+
+// Elements whose boundaries separate words without ending a line
+const CELL_ELEMENTS = new Set(['td', 'th', 'option']);
+
+// Separators from weakest to strongest
+const BREAK_STRENGTH = ['', ' ', '\n', '\n\n'];
+
+// Whitespace that HTML collapses outside <pre>
+const ASCII_WHITESPACE = /[ \t\n\r\f]/;
+
+// Elements that never have a closing tag
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0', shy: '\u00AD',
+  ensp: '\u2002', emsp: '\u2003', thinsp: '\u2009', zwnj: '\u200C', zwj: '\u200D',
+  ndash: '\u2013', mdash: '\u2014', lsquo: '\u2018', rsquo: '\u2019', sbquo: '\u201A',
+  ldquo: '\u201C', rdquo: '\u201D', bdquo: '\u201E', laquo: '\u00AB', raquo: '\u00BB',
+  hellip: '\u2026', bull: '\u2022', middot: '\u00B7', copy: '\u00A9', reg: '\u00AE', trade: '\u2122',
+  deg: '\u00B0', plusmn: '\u00B1', times: '\u00D7', divide: '\u00F7', euro: '\u20AC', pound: '\u00A3',
+  yen: '\u00A5', cent: '\u00A2', sect: '\u00A7', para: '\u00B6', iexcl: '\u00A1', iquest: '\u00BF',
+};
+
+// Comments, CDATA sections, declarations, processing instructions, and start or end tags.
+// Tag parts never contain "<", so a stray "<" fails at once instead of rescanning the input.
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)|<![^<>]*>|<\?[\s\S]*?(?:\?>|$)|<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s"'<>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Decodes named and numeric character references.
+ * @param text Text containing character references.
+ * @returns The decoded text; unknown named references are left unchanged.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([A-Za-z][A-Za-z0-9]*));?/g, (match, decimal, hex, name) => {
+    if (decimal !== undefined || hex !== undefined) {
+      const codePoint = decimal !== undefined ? Number(decimal) : parseInt(hex, 16);
+      return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '\uFFFD';
+    }
+    return NAMED_ENTITIES[name] ?? match;
+  });
+}
+
+/**
+ * Extracts the visible prose from an HTML or XML document, dropping tags, attributes,
+ * comments and the contents of scripts and styles.
+ * @param html The HTML or XML source.
+ * @param options Selector and XML switches.
+ * @returns The prose and a report of the excluded elements.
+ * @throws Error if a selector is given and matches no element.
+ */
+export function extractHtmlText(html: string, options: HtmlOptions = {}): HtmlExtraction {
+  const excluded: HtmlExclusions = { scripts: 0, styles: 0, comments: 0 };
+  if (!html) {
+    return { text: '', excluded };
+  }
+
+  const xml = options.xml ?? false;
+  const selectors = options.selector ? parseSelector(options.selector) : undefined;
+  const stack: OpenElement[] = [];
+  // Number of open elements per name, so end tags without an open element are skipped at once
+  const openCounts = new Map<string, number>();
+  const output: string[] = [];
+  let selectedDepth = 0;
+  let hiddenDepth = 0;
+  let preDepth = 0;
+  let matches = 0;
+  let position = 0;
+  // Strongest separator requested since the last visible text; adjacent boundaries merge
+  let pendingBreak = '';
+
+  const requestBreak = (separator: string) => {
+    if (BREAK_STRENGTH.indexOf(separator) > BREAK_STRENGTH.indexOf(pendingBreak)) {
+      pendingBreak = separator;
+    }
+  };
+
+  const emit = (text: string) => {
+    if (text === '' || hiddenDepth > 0 || (selectors && selectedDepth === 0)) {
+      return;
+    }
+    output.push(pendingBreak, text);
+    pendingBreak = '';
+  };
+
+  const emitText = (raw: string, decode: boolean) => {
+    const text = decode ? decodeEntities(raw) : raw;
+    if (preDepth > 0) {
+      emit(text);
+      return;
+    }
+    // Outside <pre>, runs of ASCII whitespace render as a single space
+    let start = 0;
+    let end = text.length;
+    while (start < end && ASCII_WHITESPACE.test(text[start])) start++;
+    while (end > start && ASCII_WHITESPACE.test(text[end - 1])) end--;
+    const content = text.slice(start, end);
+    if (start > 0) requestBreak(' ');
+    emit(content.replace(/[ \t\n\r\f]+/g, ' '));
+    if (end < text.length && content) requestBreak(' ');
+  };
+
+  const close = (element: OpenElement) => {
+    if (element.selected) selectedDepth--;
+    if (element.hidden) hiddenDepth--;
+    if (element.name === 'pre') preDepth--;
+    requestBreak(boundaryFor(element.name, xml));
+  };
+
+  TOKEN.lastIndex = 0;
+  let token: RegExpExecArray | null;
+  let iteration = 0;
+  while ((token = TOKEN.exec(html)) !== null) {
+    checkDeadline(++iteration);
+    emitText(html.slice(position, token.index), true);
+    position = TOKEN.lastIndex;
+
+    const [source, cdata, slash, rawName, attributes, selfClosing] = token;
+    if (source.startsWith('<!--')) {
+      excluded.comments++;
+      continue;
+    }
+    if (cdata !== undefined) {
+      emitText(cdata, false);
+      continue;
+    }
+    if (rawName === undefined) {
+      // Doctype, other declarations and processing instructions
+      continue;
+    }
+
+    const name = xml ? rawName : rawName.toLowerCase();
+
+    if (slash) {
+      // Close the most recent matching element, implicitly closing anything opened inside it
+      if (openCounts.get(name)) {
+        let element: OpenElement;
+        do {
+          element = stack.pop() as OpenElement;
+          openCounts.set(element.name, (openCounts.get(element.name) as number) - 1);
+          close(element);
+        } while (element.name !== name);
+      }
+      continue;
+    }
+
+    if (!xml && SKIPPED_ELEMENTS.has(name) && !selfClosing) {
+      // Skip everything up to the matching end tag
+      const endTag = new RegExp(`</${name}\\s*>`, 'gi');
+      endTag.lastIndex = position;
+      const end = endTag.exec(html);
+      const skipped = source + html.slice(position, end ? end.index : html.length);
+      excluded.scripts += (skipped.match(/<script\b/gi) ?? []).length;
+      excluded.styles += (skipped.match(/<style\b/gi) ?? []).length;
+      position = end ? endTag.lastIndex : html.length;
+      TOKEN.lastIndex = position;
+      continue;
+    }
+
+    const parsed = parseAttributes(attributes);
+    const selected = selectors !== undefined && selectedDepth === 0 && selectors.some(selector => matchesSelector(selector, name, parsed));
+    const hidden = !xml && parsed.has('hidden');
+    const element: OpenElement = { name, selected, hidden };
+
+    if (selected) matches++;
+    requestBreak(boundaryFor(name, xml));
+    if (selected) selectedDepth++;
+    if (hidden) hiddenDepth++;
+
+    if (selfClosing || (!xml && VOID_ELEMENTS.has(name))) {
+      close(element);
+      continue;
+    }
+
+    if (name === 'pre') preDepth++;
+    stack.push(element);
+    openCounts.set(name, (openCounts.get(name) ?? 0) + 1);
+  }
+  emitText(html.slice(position), true);
+
+  if (selectors && matches === 0) {
+    throw new Error(`Selector "${options.selector}" did not match any element`);
+  }
+
+  const text = output.join('').trim();
+  return { text, excluded };
+}
+
+/**
+ * Returns the separator an element boundary inserts into the extracted text.
+ * @param name The element name.
+ * @param xml Whether the document is parsed as generic XML.
+ * @returns A paragraph break, line break, space, or nothing for inline elements.
+ */
+function boundaryFor(name: string, xml: boolean): string {
+  if (xml) {
+    return ' ';
+  }
+  if (BLOCK_ELEMENTS.has(name)) {
+    return '\n\n';
+  }
+  if (LINE_ELEMENTS.has(name)) {
+    return '\n';
+  }
+  if (CELL_ELEMENTS.has(name)) {
+    return ' ';
+  }
+  return '';
+}
+
+/**
+ * Parses the attributes of a start tag.
+ * @param source The attribute part of the tag.
+ * @returns Attribute values keyed by lowercase name.
+ */
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE)) {
+    attributes.set(name.toLowerCase(), decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? ''));
+  }
+  return attributes;
+}
+
+/**
+ * Parses a comma-separated list of compound selectors such as "article, div.post#main".
+ * @param selector The selector list.
+ * @returns The parsed selectors.
+ * @throws Error if a selector uses unsupported syntax.
+ */
+function parseSelector(selector: string): SimpleSelector[] {
+  return selector.split(',').map(part => {
+    const trimmed = part.trim();
+    const match = trimmed.match(/^([A-Za-z][\w:-]*|\*)?((?:[#.][\w-]+)*)$/);
+    if (!trimmed || !match) {
+      throw new Error(`Unsupported selector "${trimmed}": use a tag name, #id and .class combinations`);
+    }
+
+    const parsed: SimpleSelector = { classes: [] };
+    if (match[1] && match[1] !== '*') {
+      parsed.tag = match[1];
+    }
+    for (const [, kind, value] of match[2].matchAll(/([#.])([\w-]+)/g)) {
+      if (kind === '#') {
+        parsed.id = value;
+      } else {
+        parsed.classes.push(value);
+      }
+    }
+    return parsed;
+  });
+}
+
+/**
+ * Checks whether an element matches a compound selector.
+ * @param selector The parsed selector.
+ * @param name The element name.
+ * @param attributes The element's attributes.
+ * @returns True if the tag name, id and every class match.
+ */
+function matchesSelector(selector: SimpleSelector, name: string, attributes: Map<string, string>): boolean {
+  if (selector.tag && selector.tag.toLowerCase() !== name.toLowerCase()) {
+    return false;
+  }
+  if (selector.id && attributes.get('id') !== selector.id) {
+    return false;
+  }
+  const classes = (attributes.get('class') ?? '').split(/\s+/);
+  return selector.classes.every(className => classes.includes(className));
+}
@@ -0,0 +1,96 @@
+import { SentenceCountOptions, TextAnalyzer } from './TextAnalyzer.js';
+
+// Texts with boundaries that depend on what follows: abbreviations, decimals, contractions,
+// emoji sequences, combining marks, surrogate pairs and paragraph breaks
+const SAMPLES: Array<{ locale: string; text: string; sentences?: SentenceCountOptions }> = [
+  {
+    locale: 'en-US',
+    text: 'The U.S.A. is big. It costs 3.14 dollars, isn\'t it? Yes!\n\nA new paragraph 👨‍👩‍👧‍👦 with family emoji 👍🏽.\r\n\r\nCafé au lait. étude ends here...   Then more.\n',
+  },
+  {
+    locale: 'en-US',
+    text: 'Dr. Smith arrived at 5 p.m. and said "Stop!" he said. Approx. 3.5 km later, e.g. here, we stopped… Then we left.\n\n\n1. First item\n2. Second item',
+    sentences: { mode: 'smart' },
+  },
+  {
+    locale: 'ja-JP',
+    text: '今日は良い天気です。明日も晴れるでしょう！\n\n「本当ですか？」と彼は言った。𠮷野家で食べました。',
+  },
+  {
+    locale: 'th',
+    text: 'ภาษาไทยไม่มีช่องว่างระหว่างคำ แต่มีช่องว่างระหว่างประโยค\n\nย่อหน้าใหม่',
+  },
+];
+
+describe('IncrementalAnalysis', () => {
+  it('should start empty', () => {
+    const analysis = new TextAnalyzer('en-US').createIncrementalAnalysis();
+
+    expect(analysis.length).toBe(0);
+    expect(analysis.result()).toEqual(new TextAnalyzer('en-US').analyzeText(''));
+  });
+
+  it('should return running totals from each chunk', () => {
+    const analyzer = new TextAnalyzer('en-US');
+    const analysis = analyzer.createIncrementalAnalysis();
+
+    expect(analysis.append('Hello wor').wordCount).toBe(2);
+    expect(analysis.append('ld. Second')).toEqual(analyzer.analyzeText('Hello world. Second'));
+    expect(analysis.append(' sentence.').sentenceCount).toBe(2);
+    expect(analysis.length).toBe('Hello world. Second sentence.'.length);
+  });
+
+  it('should hold back only the unfinished sentence', () => {
+    const analysis = new TextAnalyzer('en-US').createIncrementalAnalysis();
+    analysis.append('First sentence. Second sentence. Third ');
+
+    expect(analysis.pendingLength).toBe('Third '.length);
+  });
+
+  it('should not split words, graphemes or surrogate pairs at chunk boundaries', () => {
+    const analyzer = new TextAnalyzer('en-US');
+    const analysis = analyzer.createIncrementalAnalysis();
+    const text = 'Go. 👍🏽 done. can\'t. 3.14. 𝒜bc.';
+    for (const unit of text) {
+      // Splits surrogate pairs too, since iterating code points is not fine enough
+      for (const codeUnit of unit.split('')) {
+        analysis.append(codeUnit);
+      }
+    }
+
+    expect(analysis.result()).toEqual(analyzer.analyzeText(text));
+  });
+
+  it('should pass reading rates and media to the time estimates', () => {
+    const analyzer = new TextAnalyzer('en-US');
+    const analysis = analyzer.createIncrementalAnalysis();
+    const text = 'word '.repeat(500);
+    analysis.append(text);
+    const options = { wordsPerMinute: 100, images: 2, codeBlocks: 1 };
+
+    expect(analysis.result(options)).toEqual(analyzer.analyzeText(text, options));
+  });
+
+  it('should match analyzeText for any chunking', () => {
+    // Deterministic pseudo-random chunk sizes
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+    for (const { locale, text, sentences } of SAMPLES) {
+      const analyzer = new TextAnalyzer(locale);
+      const expected = { ...analyzer.analyzeText(text), sentenceCount: analyzer.countSentences(text, sentences) };
+      for (let run = 0; run < 40; run++) {
+        const analysis = analyzer.createIncrementalAnalysis(sentences);
+        let offset = 0;
+        while (offset < text.length) {
+          const end = Math.min(text.length, offset + 1 + Math.floor(random() * 12));
+          const totals = analysis.append(text.slice(offset, end));
+          offset = end;
+          expect(totals.wordCount).toBe(analyzer.countWords(text.slice(0, end)));
+        }
+
+        expect(analysis.result()).toEqual(expected);
+      }
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { SentenceCountOptions, TextAnalysisResult, TextAnalyzer, TimeEstimateOptions } from './TextAnalyzer.js';
+import { TextCounts, analysisFromCounts, countAll } from './counts.js';
+
+// A paragraph separator at the end of a text, as split by countParagraphs
+const TRAILING_SEPARATOR = /\n\s*\n\s*$/;
+
+// Ends of text after which neither a word nor a grapheme cluster can continue: whitespace,
+// closing brackets and sentence terminators that cannot join two words the way "." and "'" can
+const WORD_SAFE_END = /[\s\p{Pe}!?。！？]$/u;
+
+/**
+ * Analyzes a text that arrives in chunks, keeping running totals without holding on to the
+ * whole text. Chunks may end anywhere, even inside a word, a grapheme cluster or a surrogate
+ * pair: the text after the last sentence boundary that later chunks cannot move is held back
+ * and only counted once it is complete. The totals always equal those of analyzeText for the
+ * text received so far.
+ */
+export class IncrementalAnalysis {
+  private committed: TextCounts = { words: 0, letters: 0, characters: 0, sentences: 0, paragraphs: 0, rateCharacters: 0 };
+  /** Whether the committed text ends inside a paragraph, which the pending text then continues. */
+  private paragraphOpen = false;
+  /** Text received but not yet committed; it starts with a non-whitespace character once anything is committed. */
+  private pending = '';
+  private received = 0;
+
+  /**
+   * Starts an empty analysis.
+   * @param analyzer The analyzer whose segmenters and locale are used.
+   * @param sentences Sentence counting options.
+   */
+  constructor(private readonly analyzer: TextAnalyzer, private readonly sentences: SentenceCountOptions = {}) {}
+
+  /**
+   * Number of UTF-16 code units received so far.
+   */
+  public get length(): number {
+    return this.received;
+  }
+
+  /**
+   * Number of UTF-16 code units held back until later chunks show where their sentence ends.
+   */
+  public get pendingLength(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Adds the next chunk of the text.
+   * @param chunk The text following the previous chunk.
+   * @returns The totals for the text received so far.
+   */
+  public append(chunk: string): TextAnalysisResult {
+    this.pending += chunk;
+    this.received += chunk.length;
+    this.commit();
+    return this.result();
+  }
+
+  /**
+   * Returns the totals for the text received so far.
+   * @param options Reading rates and the number of images and code blocks outside the text.
+   * @returns The same metrics as analyzeText.
+   */
+  public result(options: TimeEstimateOptions = {}): TextAnalysisResult {
+    const pending = this.measure(this.pending);
+    const counts: TextCounts = {
+      words: this.committed.words + pending.words,
+      letters: this.committed.letters + pending.letters,
+      characters: this.committed.characters + pending.characters,
+      sentences: this.committed.sentences + pending.sentences,
+      // The first pending paragraph is the last committed one if that was not closed
+      paragraphs: this.committed.paragraphs + pending.paragraphs - (this.paragraphOpen && pending.paragraphs > 0 ? 1 : 0),
+      rateCharacters: this.committed.rateCharacters + pending.rateCharacters,
+    };
+
+    return analysisFromCounts(counts, this.analyzer.locale, options);
+  }
+
+  /**
+   * Counts the pending text up to the last sentence start that is final and keeps the rest.
+   * A sentence start is final once a letter follows it, since the sentence rules only look
+   * ahead to the next letter, and when the text before it ends where no word can continue.
+   */
+  private commit(): void {
+    const segments = this.analyzer.getSentenceSegments(this.pending, this.sentences);
+    let cut = 0;
+    for (let index = segments.length - 1; index > 0; index--) {
+      const start = segments[index].index;
+      if (/\p{L}/u.test(this.pending.slice(start)) && WORD_SAFE_END.test(this.pending.slice(0, start))) {
+        cut = start;
+        break;
+      }
+    }
+    if (cut === 0) {
+      return;
+    }
+
+    const text = this.pending.slice(0, cut);
+    const counts = this.measure(text);
+    if (this.paragraphOpen && counts.paragraphs > 0) {
+      counts.paragraphs--;
+    }
+    this.committed.words += counts.words;
+    this.committed.letters += counts.letters;
+    this.committed.characters += counts.characters;
+    this.committed.sentences += counts.sentences;
+    this.committed.paragraphs += counts.paragraphs;
+    this.committed.rateCharacters += counts.rateCharacters;
+    this.paragraphOpen = !TRAILING_SEPARATOR.test(text);
+    this.pending = this.pending.slice(cut);
+  }
+
+  /**
+   * Counts a complete part of the text.
+   * @param text The text to count.
+   * @returns The counts of the text on its own.
+   */
+  private measure(text: string): TextCounts {
+    return countAll(this.analyzer, text, this.sentences);
+  }
+}
@@ -0,0 +1,72 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { checkLimits } from './limits.js';
+
+describe('checkLimits', () => {
+  const analyzer = new TextAnalyzer('en-US');
+
+  it('should pass text within the limits', () => {
+    const report = checkLimits(analyzer, 'A short abstract.', [
+      { metric: 'wordCount', min: 1, max: 250 },
+      { metric: 'characterCount', max: 160 },
+    ]);
+
+    expect(report.passed).toBe(true);
+    expect(report.checks).toEqual([
+      { metric: 'wordCount', min: 1, max: 250, actual: 3, passed: true },
+      { metric: 'characterCount', max: 160, actual: 17, passed: true },
+    ]);
+  });
+
+  it('should report how far the text is under a minimum', () => {
+    const report = checkLimits(analyzer, 'Too short.', [{ metric: 'wordCount', min: 5 }]);
+
+    expect(report.passed).toBe(false);
+    expect(report.checks[0]).toEqual({ metric: 'wordCount', min: 5, actual: 2, passed: false, shortBy: 3 });
+  });
+
+  it('should locate the first word beyond a maximum', () => {
+    const text = 'One two, three four five.';
+    const [check] = checkLimits(analyzer, text, [{ metric: 'wordCount', max: 3 }]).checks;
+
+    expect(check).toMatchObject({ actual: 5, passed: false, exceededBy: 2 });
+    expect(text.slice(check.exceededAt)).toBe('four five.');
+    expect(analyzer.countWords(text.slice(0, check.exceededAt))).toBe(3);
+  });
+
+  it('should count graphemes, not code units, for characters', () => {
+    const text = '👍🏽👍🏽👍🏽 ok';
+    const [check] = checkLimits(analyzer, text, [{ metric: 'characterCount', max: 2 }]).checks;
+
+    expect(check.actual).toBe(6);
+    expect(check.exceededAt).toBe('👍🏽👍🏽'.length);
+  });
+
+  it('should locate letters, sentences and paragraphs', () => {
+    const text = 'First one. Second one.\n\nNext paragraph. Last sentence.';
+    const { checks } = checkLimits(analyzer, text, [
+      { metric: 'letterCount', max: 5 },
+      { metric: 'sentenceCount', max: 2 },
+      { metric: 'paragraphCount', max: 1 },
+    ]);
+
+    expect(text.slice(0, checks[0].exceededAt)).toBe('First ');
+    expect(text.slice(checks[1].exceededAt)).toBe('Next paragraph. Last sentence.');
+    expect(checks[2].exceededAt).toBe(checks[1].exceededAt);
+  });
+
+  it('should locate where a reading time limit is exceeded', () => {
+    // At 238 words per minute, 7 words take 2 seconds and 8 words take 3 seconds (rounded up)
+    const text = Array.from({ length: 20 }, (_, index) => `w${index}`).join(' ');
+    const [check] = checkLimits(analyzer, text, [{ metric: 'readingTimeSeconds', max: 2 }]).checks;
+
+    const prefix = text.slice(0, check.exceededAt);
+    expect(analyzer.estimateReadingTime(prefix)).toBeLessThanOrEqual(2);
+    expect(analyzer.estimateReadingTime(text.slice(0, check.exceededAt as number + 4))).toBeGreaterThan(2);
+    expect(analyzer.countWords(prefix)).toBe(7);
+  });
+
+  it('should report offset 0 when images alone exceed a reading time limit', () => {
+    const [check] = checkLimits(analyzer, 'Caption', [{ metric: 'readingTimeSeconds', max: 5 }], { images: 1 }).checks;
+    expect(check).toMatchObject({ actual: 13, exceededAt: 0 });
+  });
+});
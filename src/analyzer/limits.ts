@@ -0,0 +1,177 @@
+import { TextAnalysisResult, TextAnalyzer, TimeEstimateOptions } from './TextAnalyzer.js';
+import { usesCharacterRate } from './timing.js';
+
+/**
+ * Metrics a limit can be set on: any metric of a full analysis.
+ */
+export type LimitMetric = keyof TextAnalysisResult;
+
+export const LIMIT_METRICS = [
+  'wordCount',
+  'letterCount',
+  'characterCount',
+  'sentenceCount',
+  'paragraphCount',
+  'readingTimeSeconds',
+  'speakingTimeSeconds',
+] as const satisfies readonly LimitMetric[];
+
+export interface LimitConstraint {
+  metric: LimitMetric;
+  /** Smallest allowed value, inclusive. */
+  min?: number;
+  /** Largest allowed value, inclusive. */
+  max?: number;
+}
+
+export interface LimitCheck extends LimitConstraint {
+  /** The metric's value for the text. */
+  actual: number;
+  passed: boolean;
+  /** How far the text is over the maximum; only present when it is. */
+  exceededBy?: number;
+  /** How far the text is under the minimum; only present when it is. */
+  shortBy?: number;
+  /**
+   * UTF-16 offset of the first unit (word, letter, character, sentence or paragraph) beyond the
+   * maximum, so that text.slice(0, exceededAt) is the longest prefix within the limit; only
+   * present when the maximum is exceeded.
+   */
+  exceededAt?: number;
+}
+
+export interface LimitReport {
+  /** Whether every constraint passed. */
+  passed: boolean;
+  checks: LimitCheck[];
+}
+
+/**
+ * Checks a text against minimum and maximum values of its metrics.
+ * @param analyzer The analyzer used to measure the text.
+ * @param text The text to check.
+ * @param constraints The limits to check, each on one metric.
+ * @param timeOptions Images and code blocks removed from the text, for the reading time.
+ * @returns The result of each check, in the order of the constraints.
+ */
+export function checkLimits(
+  analyzer: TextAnalyzer,
+  text: string,
+  constraints: LimitConstraint[],
+  timeOptions: TimeEstimateOptions = {}
+): LimitReport {
+  const analysis = analyzer.analyzeText(text, timeOptions);
+
+  const checks = constraints.map((constraint): LimitCheck => {
+    const actual = analysis[constraint.metric];
+    const check: LimitCheck = { ...constraint, actual, passed: true };
+
+    if (constraint.max !== undefined && actual > constraint.max) {
+      check.passed = false;
+      check.exceededBy = actual - constraint.max;
+      check.exceededAt = findLimitOffset(analyzer, text, constraint.metric, constraint.max, timeOptions);
+    }
+    if (constraint.min !== undefined && actual < constraint.min) {
+      check.passed = false;
+      check.shortBy = constraint.min - actual;
+    }
+    return check;
+  });
+
+  return { passed: checks.every(check => check.passed), checks };
+}
+
+/**
+ * Finds where a text first exceeds the maximum of a metric.
+ * @param analyzer The analyzer used to measure the text.
+ * @param text The text, which exceeds the maximum.
+ * @param metric The metric that is exceeded.
+ * @param max The maximum value.
+ * @param timeOptions Images and code blocks removed from the text, for the reading time.
+ * @returns The UTF-16 offset of the first unit beyond the maximum.
+ */
+function findLimitOffset(
+  analyzer: TextAnalyzer,
+  text: string,
+  metric: LimitMetric,
+  max: number,
+  timeOptions: TimeEstimateOptions
+): number {
+  if (metric === 'readingTimeSeconds' || metric === 'speakingTimeSeconds') {
+    // Times grow with the number of words (or characters), so search for the longest prefix in time
+    const starts = usesCharacterRate(analyzer.locale) ? matchOffsets(text, /[\p{L}\p{N}]/gu) : segmentOffsets(analyzer, text, 'word');
+    const time = (end: number) => metric === 'readingTimeSeconds'
+      ? analyzer.estimateReadingTime(text.slice(0, end), timeOptions)
+      : analyzer.estimateSpeakingTime(text.slice(0, end), timeOptions);
+
+    // Find the last unit whose preceding text is still within the limit
+    let low = 0;
+    let high = starts.length - 1;
+    if (starts.length === 0 || time(starts[0]) > max) {
+      return 0;
+    }
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (time(starts[middle]) <= max) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return starts[low];
+  }
+
+  const starts = unitOffsets(analyzer, text, metric);
+  return starts[Math.floor(max)] ?? text.length;
+}
+
+/**
+ * Lists the start offsets of the units a count metric counts.
+ * @param analyzer The analyzer used to segment the text.
+ * @param text The text to segment.
+ * @param metric A count metric.
+ * @returns The UTF-16 offset of each unit, in order.
+ */
+function unitOffsets(analyzer: TextAnalyzer, text: string, metric: LimitMetric): number[] {
+  switch (metric) {
+    case 'wordCount':
+      return segmentOffsets(analyzer, text, 'word');
+    case 'letterCount':
+      return matchOffsets(text, /\p{L}/gu);
+    case 'characterCount':
+      return segmentOffsets(analyzer, text, 'grapheme');
+    case 'sentenceCount':
+      return analyzer.getSentenceSegments(text).map(sentence => sentence.index);
+    case 'paragraphCount':
+      return analyzer.getParagraphSegments(text).map(paragraph => paragraph.index);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Lists the start offsets of the words or graphemes of a text.
+ * @param analyzer The analyzer whose segmenters determine the boundaries.
+ * @param text The text to segment.
+ * @param granularity "word" for word-like segments, "grapheme" for user-perceived characters.
+ * @returns The UTF-16 offset of each segment, in order.
+ */
+function segmentOffsets(analyzer: TextAnalyzer, text: string, granularity: 'word' | 'grapheme'): number[] {
+  const offsets: number[] = [];
+  for (const segment of analyzer.segment(text, granularity)) {
+    if (granularity === 'grapheme' || segment.isWordLike) {
+      offsets.push(segment.index);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Lists the offsets of every match of a global pattern.
+ * @param text The text to search.
+ * @param pattern A global regular expression.
+ * @returns The UTF-16 offset of each match, in order.
+ */
+function matchOffsets(text: string, pattern: RegExp): number[] {
+  return [...text.matchAll(pattern)].map(match => match.index as number);
+}
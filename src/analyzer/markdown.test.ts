@@ -0,0 +1,162 @@
+import { extractMarkdownText } from './markdown.js';
+import { TextAnalyzer } from './TextAnalyzer.js';
+
+describe('extractMarkdownText', () => {
+  it('should return empty text for empty input', () => {
+    expect(extractMarkdownText('')).toEqual({
+      text: '',
+      excluded: { codeBlocks: 0, inlineCode: 0, images: 0, frontMatter: false },
+      sections: [],
+    });
+    expect(extractMarkdownText(null as any).text).toBe('');
+  });
+
+  it('should strip heading markers and keep headings as separate blocks', () => {
+    expect(extractMarkdownText('# Title #\nBody text.').text).toBe('Title\n\nBody text.');
+    expect(extractMarkdownText('Title\n=====\nBody text.').text).toBe('Title\n\nBody text.');
+  });
+
+  it('should strip list markers and task boxes', () => {
+    expect(extractMarkdownText('- one\n* two\n+ three\n1. four\n2) five\n- [x] six').text)
+      .toBe('one\ntwo\nthree\nfour\nfive\nsix');
+  });
+
+  it('should strip emphasis without touching snake_case', () => {
+    expect(extractMarkdownText('*a* **b** ***c*** _d_ __e__ ~~f~~ snake_case_name').text)
+      .toBe('a b c d e f snake_case_name');
+  });
+
+  it('should strip nested emphasis and closing heading hashes', () => {
+    expect(extractMarkdownText('**bold *it* bold** and _see my_var here_').text).toBe('bold it bold and see my_var here');
+    expect(extractMarkdownText('## Title ##\n### C#').text).toBe('Title\n\nC#');
+  });
+
+  it('should run in linear time on unclosed inline syntax', () => {
+    const units = ['*a ', '_a ', '~~a ', '![a](', '<a ', '[a', '[^a', '<http:a'];
+    const lines = [
+      ...units.map(unit => unit.repeat(20_000)),
+      '# a' + ' '.repeat(60_000) + 'b',
+      // Backtick runs of distinct lengths, none of which closes
+      Array.from({ length: 350 }, (_, i) => '`'.repeat(i + 1) + 'a').join(''),
+    ];
+    for (const line of lines) {
+      const start = Date.now();
+      extractMarkdownText(line);
+      expect(Date.now() - start).toBeLessThan(1000);
+    }
+  });
+
+  it('should keep link text and drop URLs', () => {
+    expect(extractMarkdownText('See [the docs](https://example.com/docs "Docs") and [more][ref].\n\n[ref]: https://example.com').text)
+      .toBe('See the docs and more.');
+  });
+
+  it('should keep autolink URLs since they are visible', () => {
+    expect(extractMarkdownText('Visit <https://example.com>.').text).toBe('Visit https://example.com.');
+  });
+
+  it('should reduce tables to their cell text', () => {
+    const table = '| Name | Value |\n|:-----|------:|\n| a | 1 |\n| b \\| c | 2 |';
+    expect(extractMarkdownText(table).text).toBe('Name Value\na 1\nb | c 2');
+  });
+
+  it('should strip block quote markers and thematic breaks', () => {
+    expect(extractMarkdownText('> quoted\n> > nested\n\n***\n\nAfter').text).toBe('quoted\nnested\n\nAfter');
+  });
+
+  it('should drop HTML comments and inline tags', () => {
+    expect(extractMarkdownText('<!-- hidden\nnote -->\nText with <br/> a <span>tag</span>.').text)
+      .toBe('Text with a tag.');
+  });
+
+  describe('code', () => {
+    const doc = 'Intro.\n\n```js\nconst x = 1;\n```\n\n    indented();\n\nRun `npm test` now.';
+
+    it('should exclude code blocks and include inline code by default', () => {
+      const result = extractMarkdownText(doc);
+      expect(result.text).toBe('Intro.\n\nRun npm test now.');
+      expect(result.excluded.codeBlocks).toBe(2);
+      expect(result.excluded.inlineCode).toBe(0);
+    });
+
+    it('should honor the code switches', () => {
+      const result = extractMarkdownText(doc, { codeBlocks: true, inlineCode: false });
+      expect(result.text).toBe('Intro.\n\nconst x = 1;\n\nindented();\n\nRun now.');
+      expect(result.excluded).toMatchObject({ codeBlocks: 0, inlineCode: 1 });
+    });
+
+    it('should not treat Markdown inside code spans as syntax', () => {
+      expect(extractMarkdownText('Use `*args*` here').text).toBe('Use *args* here');
+    });
+
+    it('should keep placeholder characters that are part of the text', () => {
+      expect(extractMarkdownText('a \uE0009\uE001 b').text).toBe('a \uE0009\uE001 b');
+      expect(extractMarkdownText('`\uE0000\uE001` and \uE0001\uE001').text).toBe('\uE0000\uE001 and \uE0001\uE001');
+    });
+
+    it('should not treat indented list continuations as code', () => {
+      expect(extractMarkdownText('- item\n\n    continued').text).toBe('item\n\ncontinued');
+    });
+  });
+
+  describe('images and front matter', () => {
+    const doc = '---\ntitle: Post\n---\nText ![A cat](cat.png) here.';
+
+    it('should exclude alt text and front matter by default', () => {
+      const result = extractMarkdownText(doc);
+      expect(result.text).toBe('Text here.');
+      expect(result.excluded).toMatchObject({ images: 1, frontMatter: true });
+    });
+
+    it('should include alt text and front matter on request', () => {
+      const result = extractMarkdownText(doc, { altText: true, frontMatter: true });
+      expect(result.text).toBe('title: Post\n\nText A cat here.');
+      expect(result.excluded).toMatchObject({ images: 0, frontMatter: false });
+    });
+  });
+
+  it('should produce prose the analyzer counts correctly', () => {
+    const analyzer = new TextAnalyzer();
+    const doc = '# Guide\n\n1. Install the [package](https://npm.im/x).\n2. Run it.\n\n```sh\nnpm install x\n```';
+    const { text } = extractMarkdownText(doc);
+
+    expect(analyzer.countWords(doc)).toBe(15);
+    expect(analyzer.countWords(text)).toBe(6);
+    expect(analyzer.countParagraphs(text)).toBe(2);
+  });
+
+  describe('sections', () => {
+    it('should split the prose at ATX and setext headings', () => {
+      const markdown = [
+        'Intro **text**.',
+        '',
+        '# Overview',
+        '',
+        'First part.',
+        '',
+        'Details',
+        'and more',
+        '-------',
+        'Second part.',
+        '',
+        '```',
+        '# not a heading',
+        '```',
+        '### Notes ###',
+      ].join('\n');
+
+      expect(extractMarkdownText(markdown).sections).toEqual([
+        { heading: null, level: 0, text: 'Intro text.' },
+        { heading: 'Overview', level: 1, text: 'Overview\n\nFirst part.' },
+        { heading: 'Details and more', level: 2, text: 'Details\nand more\n\nSecond part.' },
+        { heading: 'Notes', level: 3, text: 'Notes' },
+      ]);
+    });
+
+    it('should leave out empty content before the first heading', () => {
+      expect(extractMarkdownText('---\ntitle: x\n---\n\n## Only\nBody').sections).toEqual([
+        { heading: 'Only', level: 2, text: 'Only\n\nBody' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,377 @@
+import { checkDeadline } from './deadline.js';
+
+/**
+ * Switches controlling which parts of a Markdown document count as prose.
+ */
+export interface MarkdownOptions {
+  /** Include the contents of fenced and indented code blocks (default false). */
+  codeBlocks?: boolean;
+  /** Include the contents of inline code spans (default true). */
+  inlineCode?: boolean;
+  /** Include image alt text (default false). */
+  altText?: boolean;
+  /** Include YAML (---) or TOML (+++) front matter (default false). */
+  frontMatter?: boolean;
+}
+
+/**
+ * Number of Markdown elements whose text was left out of the extracted prose.
+ * Syntax such as heading hashes and link URLs is always removed and not counted here.
+ */
+export interface MarkdownExclusions {
+  codeBlocks: number;
+  inlineCode: number;
+  images: number;
+  frontMatter: boolean;
+}
+
+/**
+ * Part of a document from one heading up to the next, or before the first heading.
+ */
+export interface MarkdownSection {
+  /** The heading's prose, or null for content before the first heading. */
+  heading: string | null;
+  /** Heading level from 1 to 6, or 0 for content before the first heading. */
+  level: number;
+  /** Visible prose of the section, including its heading. */
+  text: string;
+}
+
+export interface MarkdownExtraction {
+  /** Visible prose, with blocks separated by blank lines. */
+  text: string;
+  excluded: MarkdownExclusions;
+  /** The prose split at headings; content before the first heading is only included if not empty. */
+  sections: MarkdownSection[];
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCK_QUOTE = /^ {0,3}>[ \t]?/;
+const LIST_ITEM = /^[ \t]*(?:[-*+]|\d{1,9}[.)])(?:[ \t]+(?:\[[ xX]\][ \t]+)?|$)/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]]+\]:[ \t]*\S/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_COMMENT_START = /^ {0,3}<!--/;
+
+// Placeholders protect code span contents, and placeholder characters already in the text,
+// from the other inline transforms
+const PLACEHOLDER = /\uE000(\d+)\uE001/g;
+
+// Emphasis and strikethrough never span their own delimiter, so an unclosed marker only scans
+// up to the next one; nested emphasis is stripped innermost first, one level per pass.
+// Underscores only count at word boundaries, so snake_case is left alone.
+const EMPHASIS = [
+  /(\*{1,3})(?=\S)([^*]*?[^*\s])\1/g,
+  /(~~)(?=\S)([^~]*?[^~\s])\1/g,
+  /(?<![\p{L}\p{N}_])(_{1,3})(?=\S)((?:[^_]|(?<=[\p{L}\p{N}])_(?=[\p{L}\p{N}]))*?[^_\s])\1(?![\p{L}\p{N}_])/gu,
+];
+const MAX_EMPHASIS_NESTING = 3;
+
+/**
+ * Extracts the visible prose from a Markdown document, dropping syntax such as heading
+ * hashes, list markers, table pipes, emphasis markers and link URLs.
+ * @param markdown The Markdown source.
+ * @param options Switches for code blocks, inline code, alt text and front matter.
+ * @returns The prose and a report of the excluded elements.
+ */
+export function extractMarkdownText(markdown: string, options: MarkdownOptions = {}): MarkdownExtraction {
+  const excluded: MarkdownExclusions = { codeBlocks: 0, inlineCode: 0, images: 0, frontMatter: false };
+  if (!markdown) {
+    return { text: '', excluded, sections: [] };
+  }
+
+  const include = {
+    codeBlocks: options.codeBlocks ?? false,
+    inlineCode: options.inlineCode ?? true,
+    altText: options.altText ?? false,
+    frontMatter: options.frontMatter ?? false,
+  };
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+  // Headings found, with the output line where their section starts
+  const headings: Array<{ heading: string; level: number; line: number }> = [];
+  let index = 0;
+
+  // Front matter must start on the first line
+  const frontMatterDelimiter = lines[0] === '---' || lines[0] === '+++' ? lines[0] : undefined;
+  if (frontMatterDelimiter) {
+    const end = lines.findIndex((line, i) => i > 0 && (line === frontMatterDelimiter || (frontMatterDelimiter === '---' && line === '...')));
+    if (end > 0) {
+      if (include.frontMatter) {
+        output.push(...lines.slice(1, end), '');
+      } else {
+        excluded.frontMatter = true;
+      }
+      index = end + 1;
+    }
+  }
+
+  let inTable = false;
+  let inList = false;
+  let iteration = 0;
+
+  while (index < lines.length) {
+    checkDeadline(++iteration);
+    let line = lines[index];
+
+    // Block quote markers are syntax; the quoted content is prose
+    while (BLOCK_QUOTE.test(line)) {
+      line = line.replace(BLOCK_QUOTE, '');
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`);
+      let end = index + 1;
+      while (end < lines.length && !closing.test(lines[end].replace(BLOCK_QUOTE, ''))) {
+        checkDeadline(end);
+        end++;
+      }
+      if (include.codeBlocks) {
+        output.push('', ...lines.slice(index + 1, end), '');
+      } else {
+        excluded.codeBlocks++;
+        output.push('');
+      }
+      index = end + 1;
+      continue;
+    }
+
+    const previous = output.length > 0 ? output[output.length - 1] : '';
+
+    if (INDENTED_CODE.test(line) && previous.trim() === '' && !inList) {
+      let end = index;
+      while (end < lines.length && (INDENTED_CODE.test(lines[end]) || lines[end].trim() === '')) {
+        checkDeadline(end);
+        end++;
+      }
+      if (include.codeBlocks) {
+        output.push(...lines.slice(index, end).map(codeLine => codeLine.replace(INDENTED_CODE, '')), '');
+      } else {
+        excluded.codeBlocks++;
+        output.push('');
+      }
+      index = end;
+      continue;
+    }
+
+    if (HTML_COMMENT_START.test(line)) {
+      let end = index;
+      while (end < lines.length && !lines[end].includes('-->')) {
+        checkDeadline(end);
+        end++;
+      }
+      output.push('');
+      index = end + 1;
+      continue;
+    }
+
+    index++;
+
+    if (line.trim() === '') {
+      inTable = false;
+      output.push('');
+      continue;
+    }
+
+    // A setext underline turns the preceding line into a heading
+    if (SETEXT_UNDERLINE.test(line) && previous.trim() !== '' && !inTable) {
+      let start = output.length - 1;
+      while (start > 0 && output[start - 1].trim() !== '') {
+        start--;
+      }
+      headings.push({ heading: output.slice(start).join(' '), level: line.trim()[0] === '=' ? 1 : 2, line: start });
+      output.push('');
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line) || REFERENCE_DEFINITION.test(line)) {
+      output.push('');
+      continue;
+    }
+
+    if (TABLE_DELIMITER.test(line) && line.includes('|')) {
+      inTable = true;
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      inList = false;
+      const text = convertInline(headingContent(line.slice(heading[0].length)), include, excluded);
+      headings.push({ heading: text, level: heading[1].length, line: output.length });
+      output.push('', text, '');
+      continue;
+    }
+
+    const isListItem = LIST_ITEM.test(line);
+    if (isListItem) {
+      inList = true;
+      line = line.replace(LIST_ITEM, '');
+    } else if (!/^[ \t]/.test(line)) {
+      inList = false;
+    }
+
+    // A row is part of a table if it is inside one or directly followed by a delimiter row
+    const nextLine = lines[index] ?? '';
+    if (inTable || (line.includes('|') && TABLE_DELIMITER.test(nextLine) && nextLine.includes('|'))) {
+      line = splitTableRow(line).join(' ');
+    }
+
+    output.push(convertInline(line.trim(), include, excluded));
+  }
+
+  const sections: MarkdownSection[] = [];
+  const boundaries = [{ heading: null, level: 0, line: 0 }, ...headings];
+  boundaries.forEach((boundary, position) => {
+    const text = joinLines(output.slice(boundary.line, boundaries[position + 1]?.line ?? output.length));
+    if (boundary.heading !== null || text !== '') {
+      sections.push({ heading: boundary.heading, level: boundary.level, text });
+    }
+  });
+
+  return { text: joinLines(output), excluded, sections };
+}
+
+/**
+ * Joins output lines into prose, collapsing runs of blank lines into one.
+ * @param lines The output lines.
+ * @returns The joined prose without surrounding whitespace.
+ */
+function joinLines(lines: string[]): string {
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Returns the content of an ATX heading without its optional closing sequence of hashes.
+ * @param rest The heading line after its opening hashes.
+ * @returns The heading content without surrounding whitespace.
+ */
+function headingContent(rest: string): string {
+  const content = rest.trim();
+  let end = content.length;
+  while (end > 0 && content[end - 1] === '#') {
+    end--;
+  }
+  // Closing hashes must be preceded by whitespace, otherwise they are part of the content
+  return end === 0 || content[end - 1] === ' ' || content[end - 1] === '\t' ? content.slice(0, end).trim() : content;
+}
+
+/**
+ * Replaces each code span with the result of a callback. A run of backticks opens a span that
+ * the next run of the same length closes; runs without a partner are left as literal text.
+ * @param text The line to scan.
+ * @param replace Returns the replacement for a span's contents.
+ * @returns The line with its code spans replaced.
+ */
+function replaceCodeSpans(text: string, replace: (code: string) => string): string {
+  const runs = [...text.matchAll(/`+/g)];
+  // For each run, the index of the next run of the same length
+  const partners: Array<number | undefined> = [];
+  const nextByLength = new Map<number, number>();
+  for (let i = runs.length - 1; i >= 0; i--) {
+    partners[i] = nextByLength.get(runs[i][0].length);
+    nextByLength.set(runs[i][0].length, i);
+  }
+
+  let result = '';
+  let position = 0;
+  let i = 0;
+  while (i < runs.length) {
+    const partner = partners[i];
+    if (partner === undefined) {
+      i++;
+      continue;
+    }
+    const start = runs[i].index as number;
+    const end = runs[partner].index as number;
+    result += text.slice(position, start) + replace(text.slice(start + runs[i][0].length, end));
+    position = end + runs[partner][0].length;
+    i = partner + 1;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Splits a table row into its cells, honoring escaped pipes.
+ * @param row The table row.
+ * @returns The trimmed cell contents.
+ */
+function splitTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\||(?<!\\)\|$/g, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim())
+    .filter(cell => cell !== '');
+}
+
+/**
+ * Removes inline Markdown syntax from a line of text.
+ * @param text The line to convert.
+ * @param include Which optional content to keep.
+ * @param excluded The exclusion report to update.
+ * @returns The visible text of the line.
+ */
+function convertInline(
+  text: string,
+  include: Required<MarkdownOptions>,
+  excluded: MarkdownExclusions
+): string {
+  const protectedText: string[] = [];
+  const protect = (value: string) => {
+    protectedText.push(value);
+    return `\uE000${protectedText.length - 1}\uE001`;
+  };
+  const restore = (value: string): string => value.replace(PLACEHOLDER, (match, index: string) => {
+    const original = protectedText[Number(index)];
+    return original === undefined ? match : restore(original);
+  });
+
+  // Code spans first, so their contents are not treated as Markdown
+  let result = replaceCodeSpans(text.replace(/[\uE000\uE001]/g, protect), code => {
+    if (!include.inlineCode) {
+      excluded.inlineCode++;
+    }
+    return protect(include.inlineCode ? code.trim() : '');
+  });
+
+  // Brackets, parentheses and angle brackets are excluded inside the constructs below, so an
+  // unclosed one fails at the next opening one instead of scanning to the end of the line
+  result = result
+    // Images: ![alt](url) and ![alt][ref]
+    .replace(/!\[([^[\]]*)\](?:\([^()]*\)|\[[^[\]]*\])?/g, (_match, alt: string) => {
+      if (!include.altText) {
+        excluded.images++;
+      }
+      return include.altText ? alt : '';
+    })
+    // Footnote references: [^1]
+    .replace(/\[\^[^[\]]+\]/g, '')
+    // Links: [text](url "title"), [text][ref] and [text][]
+    .replace(/\[([^[\]]*)\](?:\([^()]*\)|\[[^[\]]*\])/g, '$1')
+    // Autolinks show their URL: <https://example.com>
+    .replace(/<((?:https?|ftp|mailto):[^<>\s]+)>/gi, '$1')
+    // Inline HTML tags
+    .replace(/<\/?[A-Za-z][^<>]*>/g, '');
+
+  for (let pass = 0; pass < MAX_EMPHASIS_NESTING; pass++) {
+    const stripped = EMPHASIS.reduce((current, pattern) => current.replace(pattern, '$2'), result);
+    if (stripped === result) {
+      break;
+    }
+    result = stripped;
+  }
+
+  // Backslash escapes
+  result = result.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+
+  return restore(result).replace(/[ \t]{2,}/g, ' ').trim();
+}
@@ -0,0 +1,95 @@
+import { analyzeReadability } from './readability.js';
+import { TextAnalyzer } from './TextAnalyzer.js';
+
+// Sample from Coleman and Liau (1975), as quoted in most descriptions of their index
+const COLEMAN_LIAU_SAMPLE =
+  'Existing computer programs that measure readability are based largely upon subroutines which ' +
+  'estimate number of syllables, usually by counting vowels. The shortcoming in estimating syllables ' +
+  'is that it necessitates keypunching the prose into the computer. There is no need to estimate ' +
+  'syllables since word length in letters is a better predictor of readability than word length in ' +
+  'syllables. Therefore, a new readability formula was computed that has for its predictors letters ' +
+  'per 100 words and sentences per 100 words. Both predictors can be counted by an optical scanning ' +
+  'device, and thus the formula makes it economically feasible for an organization such as the U.S. ' +
+  'Office of Education to calibrate the readability of all textbooks for the public school system.';
+
+describe('analyzeReadability', () => {
+  const analyzer = new TextAnalyzer();
+
+  it('should return statistics without scores for text without words', () => {
+    expect(analyzeReadability(analyzer, '')).toEqual({
+      statistics: { words: 0, sentences: 0, syllables: 0, characters: 0, polysyllables: 0, complexWords: 0 },
+      scores: null,
+      summary: null,
+    });
+    expect(analyzeReadability(analyzer, '... !').scores).toBeNull();
+  });
+
+  it('should match the published Flesch Reading Ease of "The cat sat on the mat."', () => {
+    const { statistics, scores } = analyzeReadability(analyzer, 'The cat sat on the mat.');
+    expect(statistics).toMatchObject({ words: 6, sentences: 1, syllables: 6 });
+    expect(scores?.fleschReadingEase).toBeCloseTo(116.15, 2);
+  });
+
+  it('should match the published Flesch scores of the platypus sentence', () => {
+    const { statistics, scores } = analyzeReadability(
+      analyzer,
+      'The Australian platypus is seemingly a hybrid of a mammal and reptilian creature.'
+    );
+    expect(statistics).toMatchObject({ words: 13, sentences: 1, syllables: 26 });
+    expect(scores?.fleschReadingEase).toBeCloseTo(24.4, 1);
+    expect(scores?.fleschKincaidGrade).toBeCloseTo(13.1, 1);
+  });
+
+  it('should match the published Coleman-Liau index of the original sample', () => {
+    const { statistics, scores } = analyzeReadability(analyzer, COLEMAN_LIAU_SAMPLE, {
+      sentences: { mode: 'smart', abbreviations: ['U.S.'] },
+    });
+    expect(statistics).toMatchObject({ words: 119, sentences: 5, characters: 639 });
+    expect(scores?.colemanLiau).toBeCloseTo(14.5, 1);
+  });
+
+  it('should apply the Gunning Fog, SMOG and ARI formulas to the statistics', () => {
+    const { statistics, scores } = analyzeReadability(analyzer, COLEMAN_LIAU_SAMPLE, {
+      sentences: { mode: 'smart', abbreviations: ['U.S.'] },
+    });
+    const { words, sentences, characters, polysyllables, complexWords } = statistics;
+    expect(scores?.gunningFog).toBeCloseTo(0.4 * (words / sentences + 100 * complexWords / words), 2);
+    expect(scores?.smog).toBeCloseTo(1.043 * Math.sqrt(polysyllables * 30 / sentences) + 3.1291, 2);
+    expect(scores?.automatedReadabilityIndex).toBeCloseTo(4.71 * characters / words + 0.5 * words / sentences - 21.43, 2);
+  });
+
+  it('should not count -es, -ed and -ing endings towards Gunning Fog complex words', () => {
+    const { statistics } = analyzeReadability(analyzer, 'Nobody was interested in the dedicated computing.');
+    expect(statistics.polysyllables).toBe(4);
+    // "computing" only reaches three syllables through its ending
+    expect(statistics.complexWords).toBe(3);
+  });
+
+  it('should treat text without terminators as one sentence', () => {
+    const { scores } = analyzeReadability(analyzer, 'The cat sat on the mat');
+    expect(scores?.fleschReadingEase).toBeCloseTo(116.15, 2);
+  });
+
+  it('should summarize the grade levels', () => {
+    const easy = analyzeReadability(analyzer, 'The cat sat on the mat. The dog ran to the cat.');
+    expect(easy.summary).toEqual(expect.objectContaining({ difficulty: 'Very easy', audience: 'Kindergarten' }));
+
+    const hard = analyzeReadability(analyzer, COLEMAN_LIAU_SAMPLE);
+    const { scores, summary } = hard;
+    const mean = ((scores?.fleschKincaidGrade ?? 0) + (scores?.gunningFog ?? 0) + (scores?.smog ?? 0) +
+      (scores?.colemanLiau ?? 0) + (scores?.automatedReadabilityIndex ?? 0)) / 5;
+    expect(summary?.gradeLevel).toBeCloseTo(mean, 1);
+    expect(summary?.difficulty).toBe('Difficult');
+    expect(summary?.audience).toBe('College');
+  });
+
+  it('should use a custom syllable counter', () => {
+    const { statistics } = analyzeReadability(analyzer, 'one two three', { syllableCounter: () => 2 });
+    expect(statistics.syllables).toBe(6);
+  });
+
+  it('should use the syllable counter registered for the locale', () => {
+    const spanish = new TextAnalyzer('es');
+    expect(analyzeReadability(spanish, 'La casa es bonita.').statistics.syllables).toBe(7);
+  });
+});
@@ -0,0 +1,178 @@
+import { SentenceCountOptions, TextAnalyzer } from './TextAnalyzer.js';
+import { round } from './rounding.js';
+import { SyllableCounter, getSyllableCounter } from './syllables.js';
+
+export interface ReadabilityOptions {
+  /** Sentence counting options; "smart" mode avoids splitting at abbreviations (default "standard"). */
+  sentences?: SentenceCountOptions;
+  /** Syllable counter to use instead of the one registered for the analyzer's locale. */
+  syllableCounter?: SyllableCounter;
+}
+
+/**
+ * Counts the readability formulas are computed from.
+ */
+export interface ReadabilityStatistics {
+  words: number;
+  sentences: number;
+  syllables: number;
+  /** Letters and digits in words, as used by Coleman–Liau and ARI. */
+  characters: number;
+  /** Words of three or more syllables, as used by SMOG. */
+  polysyllables: number;
+  /** Polysyllables, not counting words that only reach three syllables through an -es, -ed or -ing ending, as used by Gunning Fog. */
+  complexWords: number;
+}
+
+/**
+ * Standard readability indices, rounded to two decimals. All indices except Flesch Reading
+ * Ease are US school grade levels.
+ */
+export interface ReadabilityScores {
+  /** 0–100, higher is easier. */
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smog: number;
+  colemanLiau: number;
+  automatedReadabilityIndex: number;
+}
+
+export interface ReadabilitySummary {
+  /** Mean of the five grade-level indices. */
+  gradeLevel: number;
+  /** Difficulty band for the Flesch Reading Ease score, e.g. "Plain English". */
+  difficulty: string;
+  /** Reader the text suits, e.g. "8th grade" or "College". */
+  audience: string;
+}
+
+export interface ReadabilityResult {
+  statistics: ReadabilityStatistics;
+  /** Null when the text contains no words. */
+  scores: ReadabilityScores | null;
+  /** Null when the text contains no words. */
+  summary: ReadabilitySummary | null;
+}
+
+// Flesch Reading Ease bands, from the lowest score each band starts at
+const FLESCH_BANDS: ReadonlyArray<[number, string]> = [
+  [90, 'Very easy'],
+  [80, 'Easy'],
+  [70, 'Fairly easy'],
+  [60, 'Plain English'],
+  [50, 'Fairly difficult'],
+  [30, 'Difficult'],
+  [10, 'Very difficult'],
+  [-Infinity, 'Extremely difficult'],
+];
+
+// Suffixes that do not make a word complex for Gunning Fog
+const FOG_SUFFIX = /(?:es|ed|ing)$/i;
+
+/**
+ * Computes the Flesch Reading Ease, Flesch–Kincaid Grade, Gunning Fog, SMOG, Coleman–Liau and
+ * Automated Readability indices of a text, plus a grade-level summary.
+ * Syllables are counted with the counter registered for the analyzer's locale; the indices
+ * themselves were calibrated on English and are only indicative for other languages.
+ * @param analyzer The analyzer used to split words and sentences.
+ * @param text The text to score.
+ * @param options Sentence counting and syllable counter overrides.
+ * @returns The underlying statistics, the indices and a summary.
+ */
+export function analyzeReadability(
+  analyzer: TextAnalyzer,
+  text: string,
+  options: ReadabilityOptions = {}
+): ReadabilityResult {
+  const countSyllables = options.syllableCounter ?? getSyllableCounter(analyzer.locale);
+  const statistics: ReadabilityStatistics = {
+    words: 0,
+    sentences: analyzer.countSentences(text, options.sentences),
+    syllables: 0,
+    characters: 0,
+    polysyllables: 0,
+    complexWords: 0,
+  };
+
+  for (const word of analyzer.getWords(text)) {
+    const syllables = countSyllables(word);
+    statistics.words++;
+    statistics.syllables += syllables;
+    statistics.characters += word.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+    if (syllables >= 3) {
+      statistics.polysyllables++;
+      if (!FOG_SUFFIX.test(word) || countSyllables(word.replace(FOG_SUFFIX, '')) >= 3) {
+        statistics.complexWords++;
+      }
+    }
+  }
+
+  if (statistics.words === 0) {
+    return { statistics, scores: null, summary: null };
+  }
+
+  const scores = computeScores(statistics);
+  return { statistics, scores, summary: summarize(scores) };
+}
+
+/**
+ * Applies the readability formulas to a text's statistics.
+ * @param statistics Counts for a text with at least one word.
+ * @returns The rounded indices.
+ */
+function computeScores(statistics: ReadabilityStatistics): ReadabilityScores {
+  const { words, syllables, characters, polysyllables, complexWords } = statistics;
+  // Text without sentence terminators still forms one sentence
+  const sentences = Math.max(1, statistics.sentences);
+  const wordsPerSentence = words / sentences;
+  const syllablesPerWord = syllables / words;
+
+  return {
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord, 2),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59, 2),
+    gunningFog: round(0.4 * (wordsPerSentence + 100 * complexWords / words), 2),
+    smog: round(1.043 * Math.sqrt(polysyllables * 30 / sentences) + 3.1291, 2),
+    colemanLiau: round(0.0588 * (100 * characters / words) - 0.296 * (100 * sentences / words) - 15.8, 2),
+    automatedReadabilityIndex: round(4.71 * characters / words + 0.5 * wordsPerSentence - 21.43, 2),
+  };
+}
+
+/**
+ * Summarizes the indices as an average grade, a difficulty band and an audience.
+ * @param scores The readability indices.
+ * @returns The summary.
+ */
+function summarize(scores: ReadabilityScores): ReadabilitySummary {
+  const grades = [
+    scores.fleschKincaidGrade,
+    scores.gunningFog,
+    scores.smog,
+    scores.colemanLiau,
+    scores.automatedReadabilityIndex,
+  ];
+  const gradeLevel = round(grades.reduce((sum, grade) => sum + grade, 0) / grades.length, 2);
+  const [, difficulty] = FLESCH_BANDS.find(([minimum]) => scores.fleschReadingEase >= minimum) as [number, string];
+
+  return { gradeLevel, difficulty, audience: audienceFor(gradeLevel) };
+}
+
+/**
+ * Describes the reader a US grade level corresponds to.
+ * @param gradeLevel A US school grade level.
+ * @returns A description such as "Kindergarten", "3rd grade", "College" or "College graduate".
+ */
+function audienceFor(gradeLevel: number): string {
+  const grade = Math.round(gradeLevel);
+  if (grade < 1) {
+    return 'Kindergarten';
+  }
+  if (grade > 16) {
+    return 'College graduate';
+  }
+  if (grade > 12) {
+    return 'College';
+  }
+  const suffix = grade === 1 ? 'st' : grade === 2 ? 'nd' : grade === 3 ? 'rd' : 'th';
+  return `${grade}${suffix} grade`;
+}
@@ -0,0 +1,10 @@
+/**
+ * Rounds a value to a number of decimals.
+ * @param value The unrounded value.
+ * @param decimals The number of decimals to keep.
+ * @returns The rounded value.
+ */
+export function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,58 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { segmentText } from './segments.js';
+
+describe('segmentText', () => {
+  const analyzer = new TextAnalyzer('en-US');
+
+  it('should return words with UTF-16 and grapheme positions', () => {
+    const text = '👍🏽 Great, café!';
+    const page = segmentText(analyzer, text, 'words');
+
+    expect(page).toEqual({
+      total: 2,
+      offset: 0,
+      segments: [
+        { index: 0, text: 'Great', start: 5, end: 10, graphemeStart: 2, graphemeEnd: 7 },
+        { index: 1, text: 'café', start: 12, end: 16, graphemeStart: 9, graphemeEnd: 13 },
+      ],
+    });
+    for (const segment of page.segments) {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text);
+    }
+  });
+
+  it('should return sentences without surrounding whitespace', () => {
+    const text = '  First one.  Second one?\nThird.';
+    const { segments } = segmentText(analyzer, text, 'sentences');
+
+    expect(segments.map(segment => segment.text)).toEqual(['First one.', 'Second one?', 'Third.']);
+    expect(segments.map(segment => segment.start)).toEqual([2, 14, 26]);
+  });
+
+  it('should apply sentence options', () => {
+    const { total } = segmentText(analyzer, 'Dr. Smith arrived. He sat.', 'sentences', { sentences: { mode: 'smart' } });
+    expect(total).toBe(2);
+  });
+
+  it('should return paragraphs', () => {
+    const text = 'Intro line\ncontinues.\n\n  \n\nSecond paragraph.\r\n\r\nThird.';
+    const { segments } = segmentText(analyzer, text, 'paragraphs');
+
+    expect(segments.map(segment => segment.text)).toEqual(['Intro line\ncontinues.', 'Second paragraph.', 'Third.']);
+    expect(text.slice(segments[2].start, segments[2].end)).toBe('Third.');
+  });
+
+  it('should paginate', () => {
+    const text = 'one two three four five';
+
+    const first = segmentText(analyzer, text, 'words', { limit: 2 });
+    expect(first.segments.map(segment => segment.text)).toEqual(['one', 'two']);
+    expect(first.nextOffset).toBe(2);
+
+    const last = segmentText(analyzer, text, 'words', { offset: 4, limit: 2 });
+    expect(last).toMatchObject({ total: 5, offset: 4, segments: [{ index: 4, text: 'five' }] });
+    expect(last).not.toHaveProperty('nextOffset');
+
+    expect(segmentText(analyzer, text, 'words', { offset: 10 }).segments).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { SentenceCountOptions, TextAnalyzer, TextSegment } from './TextAnalyzer.js';
+
+/**
+ * Units a text can be split into.
+ */
+export type SegmentUnit = 'words' | 'sentences' | 'paragraphs';
+
+export interface SegmentTextOptions {
+  /** Sentence splitting options for the sentences unit. */
+  sentences?: SentenceCountOptions;
+  /** Number of segments to skip (default 0). */
+  offset?: number;
+  /** Maximum number of segments to return (defaults to all). */
+  limit?: number;
+}
+
+export interface PositionedSegment {
+  /** Position of the segment among all segments of the text, starting at 0. */
+  index: number;
+  /** The segment, without surrounding whitespace. */
+  text: string;
+  /** UTF-16 offset where the segment starts, as used by String.prototype.slice. */
+  start: number;
+  /** UTF-16 offset just after the segment. */
+  end: number;
+  /** Number of grapheme clusters before the segment. */
+  graphemeStart: number;
+  /** Number of grapheme clusters up to the end of the segment. */
+  graphemeEnd: number;
+}
+
+export interface SegmentPage {
+  /** Number of segments in the whole text. */
+  total: number;
+  /** Number of segments skipped. */
+  offset: number;
+  segments: PositionedSegment[];
+  /** Offset of the next page; only present when more segments follow. */
+  nextOffset?: number;
+}
+
+/**
+ * Splits a text into words, sentences or paragraphs with their positions, one page at a time.
+ * Words are word-like segments, sentences and paragraphs are split like countSentences and
+ * countParagraphs.
+ * @param analyzer The analyzer whose segmenters determine the boundaries.
+ * @param text The text to split.
+ * @param unit The unit to split into.
+ * @param options Sentence options and the page to return.
+ * @returns The requested page of segments and the total number of segments.
+ */
+export function segmentText(
+  analyzer: TextAnalyzer,
+  text: string,
+  unit: SegmentUnit,
+  options: SegmentTextOptions = {}
+): SegmentPage {
+  const all = splitUnits(analyzer, text, unit, options.sentences);
+  const offset = options.offset ?? 0;
+  const end = options.limit === undefined ? all.length : Math.min(all.length, offset + options.limit);
+
+  // Grapheme positions are only computed when there is something to report
+  const graphemeIndex = offset < end ? graphemeIndexer(analyzer, text) : () => 0;
+  const segments = all.slice(offset, end).map(({ segment, index }, position): PositionedSegment => ({
+    index: offset + position,
+    text: segment,
+    start: index,
+    end: index + segment.length,
+    graphemeStart: graphemeIndex(index),
+    graphemeEnd: graphemeIndex(index + segment.length),
+  }));
+
+  return {
+    total: all.length,
+    offset,
+    segments,
+    ...(end < all.length ? { nextOffset: end } : {}),
+  };
+}
+
+/**
+ * Splits a text into all segments of a unit.
+ * @param analyzer The analyzer used to split the text.
+ * @param text The text to split.
+ * @param unit The unit to split into.
+ * @param sentences Sentence splitting options.
+ * @returns The segments without surrounding whitespace, with their UTF-16 offsets.
+ */
+function splitUnits(analyzer: TextAnalyzer, text: string, unit: SegmentUnit, sentences?: SentenceCountOptions): TextSegment[] {
+  switch (unit) {
+    case 'sentences':
+      return analyzer.getSentenceSegments(text, sentences).map(({ segment, index }) => {
+        const leading = segment.length - segment.trimStart().length;
+        return { segment: segment.trim(), index: index + leading };
+      });
+    case 'paragraphs':
+      return analyzer.getParagraphSegments(text);
+    default:
+      return [...analyzer.segment(text, 'word')]
+        .filter(segment => segment.isWordLike)
+        .map(({ segment, index }) => ({ segment, index }));
+  }
+}
+
+/**
+ * Creates a function converting UTF-16 offsets at grapheme boundaries to grapheme indices.
+ * @param analyzer The analyzer used to split graphemes.
+ * @param text The text the offsets refer to.
+ * @returns A function returning the number of graphemes that start before an offset.
+ */
+function graphemeIndexer(analyzer: TextAnalyzer, text: string): (offset: number) => number {
+  const starts = [...analyzer.segment(text, 'grapheme')].map(segment => segment.index);
+  return (offset: number) => {
+    let low = 0;
+    let high = starts.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (starts[middle] < offset) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  };
+}
@@ -0,0 +1,53 @@
+// Lowercase function words that carry little meaning on their own, keyed by primary language subtag
+const STOP_WORDS: Record<string, ReadonlySet<string>> = {
+  en: new Set([
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are',
+    'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+    'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from',
+    'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him',
+    'himself', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me',
+    'more', 'most', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or',
+    'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some',
+    'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these',
+    'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'very', 'was', 'we',
+    'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would',
+    'you', 'your', 'yours', 'yourself', 'yourselves',
+  ]),
+  de: new Set([
+    'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bist', 'da',
+    'damit', 'dann', 'das', 'dass', 'dem', 'den', 'denn', 'der', 'des', 'die', 'dies', 'diese',
+    'dieser', 'dieses', 'doch', 'dort', 'du', 'durch', 'ein', 'eine', 'einem', 'einen', 'einer',
+    'eines', 'er', 'es', 'euch', 'euer', 'für', 'hat', 'hatte', 'haben', 'hier', 'ich', 'ihr', 'ihre',
+    'im', 'in', 'ist', 'ja', 'jetzt', 'kann', 'kein', 'keine', 'man', 'mein', 'meine', 'mich', 'mir',
+    'mit', 'nach', 'nicht', 'noch', 'nur', 'ob', 'oder', 'sich', 'sie', 'sind', 'so', 'über', 'um',
+    'und', 'uns', 'unser', 'unter', 'vom', 'von', 'vor', 'war', 'waren', 'was', 'wenn', 'wer', 'wie',
+    'wir', 'wird', 'wo', 'zu', 'zum', 'zur',
+  ]),
+  fr: new Set([
+    'a', 'au', 'aux', 'avec', 'ce', 'ces', 'cette', 'dans', 'de', 'des', 'du', 'elle', 'elles', 'en',
+    'est', 'et', 'eu', 'il', 'ils', 'je', 'la', 'le', 'les', 'leur', 'leurs', 'lui', 'ma', 'mais',
+    'me', 'mes', 'moi', 'mon', 'ne', 'nos', 'notre', 'nous', 'on', 'ou', 'où', 'par', 'pas', 'pour',
+    'qu', 'que', 'qui', 'sa', 'se', 'ses', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi', 'ton',
+    'tu', 'un', 'une', 'vos', 'votre', 'vous', 'été', 'être', 'avoir', 'c', 'd', 'j', 'l', 'm', 'n',
+    's', 't', 'y',
+  ]),
+  es: new Set([
+    'a', 'al', 'algo', 'como', 'con', 'de', 'del', 'el', 'ella', 'ellas', 'ellos', 'en', 'entre', 'era',
+    'es', 'esa', 'ese', 'eso', 'esta', 'está', 'este', 'esto', 'fue', 'ha', 'hay', 'la', 'las', 'le',
+    'les', 'lo', 'los', 'me', 'mi', 'mis', 'muy', 'más', 'ni', 'no', 'nos', 'o', 'para', 'pero', 'por',
+    'que', 'qué', 'se', 'ser', 'si', 'sin', 'sobre', 'su', 'sus', 'también', 'te', 'tu', 'tus', 'un',
+    'una', 'uno', 'unos', 'y', 'ya', 'yo', 'él',
+  ]),
+};
+
+const EMPTY: ReadonlySet<string> = new Set();
+
+/**
+ * Looks up the stop-word list for a locale by its primary language subtag.
+ * @param locale A BCP 47 language tag, e.g., "en-US" or "de".
+ * @returns The language's lowercase stop words, or an empty set for languages without a list.
+ */
+export function getStopWords(locale: string): ReadonlySet<string> {
+  const language = locale.split('-')[0].toLowerCase();
+  return STOP_WORDS[language] ?? EMPTY;
+}
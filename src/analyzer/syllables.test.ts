@@ -0,0 +1,49 @@
+import { countEnglishSyllables, countVowelGroups, getSyllableCounter, registerSyllableCounter } from './syllables.js';
+
+describe('countEnglishSyllables', () => {
+  it.each([
+    ['cat', 1], ['the', 1], ['makes', 1], ['jumped', 1], ['these', 1],
+    ['table', 2], ['wanted', 2], ['boxes', 2], ['being', 2], ['nation', 2], ['creature', 2], ['hybrid', 2],
+    ['radio', 3], ['various', 3], ['delicious', 3], ['platypus', 3], ['seemingly', 3], ['beautiful', 3],
+    ['Australian', 4], ['reptilian', 4], ['education', 4], ['interesting', 4],
+    ['organization', 5], ['readability', 5],
+  ])('should count %s as %i syllables', (word, expected) => {
+    expect(countEnglishSyllables(word)).toBe(expected);
+  });
+
+  it('should ignore case, apostrophes and diacritics', () => {
+    expect(countEnglishSyllables("Don't")).toBe(1);
+    expect(countEnglishSyllables('RADIO')).toBe(3);
+    expect(countEnglishSyllables('naïve')).toBe(countEnglishSyllables('naive'));
+  });
+
+  it('should count at least one syllable', () => {
+    expect(countEnglishSyllables('2024')).toBe(1);
+    expect(countEnglishSyllables('rhythm')).toBe(1);
+  });
+});
+
+describe('countVowelGroups', () => {
+  it('should count vowel groups ignoring diacritics', () => {
+    expect(countVowelGroups('casa')).toBe(2);
+    expect(countVowelGroups('canción')).toBe(2);
+    expect(countVowelGroups('Übermäßig')).toBe(4);
+  });
+});
+
+describe('getSyllableCounter', () => {
+  it('should use the English counter for English locales', () => {
+    expect(getSyllableCounter('en-US')).toBe(countEnglishSyllables);
+    expect(getSyllableCounter('en')).toBe(countEnglishSyllables);
+  });
+
+  it('should fall back to vowel groups for other languages', () => {
+    expect(getSyllableCounter('es-ES')).toBe(countVowelGroups);
+  });
+
+  it('should use registered counters', () => {
+    const counter = (word: string) => word.length;
+    registerSyllableCounter('XX', counter);
+    expect(getSyllableCounter('xx-YY')).toBe(counter);
+  });
+});
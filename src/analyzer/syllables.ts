@@ -0,0 +1,75 @@
+/**
+ * Counts the syllables in a single word.
+ */
+export type SyllableCounter = (word: string) => number;
+
+// Common English words the heuristic miscounts
+const ENGLISH_EXCEPTIONS: Record<string, number> = {
+  area: 3, business: 2, create: 2, created: 3, creates: 2, every: 2, everything: 3,
+  idea: 3, ideas: 3, something: 2, these: 1, those: 1,
+};
+
+// Endings that are usually silent: "-es" (except after sibilants), "-ed" (except after t or d) and a final "-e"
+const ENGLISH_SILENT_ENDING = /(?:(?<=[^laeiouysxzcg])es|(?<=[^aeiouytd])ed|(?<=[^laeiouy])e)$/;
+
+// Vowel pairs pronounced as two syllables, as in "radio" or "Australian", but not in "-tion", "-cial" or "-gion"
+const ENGLISH_SPLIT_VOWELS = /[^tcsgx]i[aou]|[aeiouy]ing$/g;
+
+/**
+ * Counts syllables in an English word using vowel groups, silent endings and a small
+ * list of exceptions. The result is an estimate that matches dictionary syllabification
+ * for most common words.
+ * @param word The word to count.
+ * @returns The number of syllables, at least 1.
+ */
+export function countEnglishSyllables(word: string): number {
+  const normalized = word.normalize('NFD').toLowerCase().replace(/[^a-z]/g, '');
+  if (normalized.length <= 3) {
+    return 1;
+  }
+  const exception = ENGLISH_EXCEPTIONS[normalized];
+  if (exception !== undefined) {
+    return exception;
+  }
+
+  const stem = normalized.replace(ENGLISH_SILENT_ENDING, '').replace(/^y/, '');
+  const groups = stem.match(/[aeiouy]+/g)?.length ?? 0;
+  const splits = normalized.match(ENGLISH_SPLIT_VOWELS)?.length ?? 0;
+  return Math.max(1, groups + splits);
+}
+
+/**
+ * Counts syllables as groups of vowels, ignoring diacritics. Used for languages without
+ * a dedicated counter; reasonable for languages with largely phonetic spelling.
+ * @param word The word to count.
+ * @returns The number of syllables, at least 1.
+ */
+export function countVowelGroups(word: string): number {
+  const normalized = word.normalize('NFD').toLowerCase().replace(/\p{M}/gu, '');
+  const groups = normalized.match(/[aeiouyæøœ]+/g)?.length ?? 0;
+  return Math.max(1, groups);
+}
+
+// Counters keyed by primary language subtag
+const COUNTERS = new Map<string, SyllableCounter>([
+  ['en', countEnglishSyllables],
+]);
+
+/**
+ * Registers a syllable counter for a language, replacing any existing counter.
+ * @param language A primary language subtag, e.g., "de".
+ * @param counter The counter to use for that language.
+ */
+export function registerSyllableCounter(language: string, counter: SyllableCounter): void {
+  COUNTERS.set(language.toLowerCase(), counter);
+}
+
+/**
+ * Looks up the syllable counter for a locale by its primary language subtag.
+ * @param locale A BCP 47 language tag, e.g., "en-US" or "es".
+ * @returns The language's counter, falling back to vowel-group counting for languages without one.
+ */
+export function getSyllableCounter(locale: string): SyllableCounter {
+  const language = locale.split('-')[0].toLowerCase();
+  return COUNTERS.get(language) ?? countVowelGroups;
+}
@@ -0,0 +1,41 @@
+import { countRateCharacters, formatDuration, mediaSeconds, usesCharacterRate } from './timing.js';
+
+describe('timing', () => {
+  describe('usesCharacterRate', () => {
+    it('should use characters for Chinese, Japanese and Korean only', () => {
+      expect(usesCharacterRate('zh-Hant-TW')).toBe(true);
+      expect(usesCharacterRate('ja')).toBe(true);
+      expect(usesCharacterRate('ko-KR')).toBe(true);
+      expect(usesCharacterRate('en-US')).toBe(false);
+    });
+  });
+
+  describe('countRateCharacters', () => {
+    it('should count letters and digits only', () => {
+      expect(countRateCharacters('')).toBe(0);
+      expect(countRateCharacters('東京 2020、晴れ!')).toBe(8);
+    });
+  });
+
+  describe('mediaSeconds', () => {
+    it('should decrease image time down to the minimum', () => {
+      expect(mediaSeconds(0, 0)).toBe(0);
+      expect(mediaSeconds(1, 0)).toBe(12);
+      expect(mediaSeconds(11, 0)).toBe(12 + 11 + 10 + 9 + 8 + 7 + 6 + 5 + 4 + 3 + 3);
+      expect(mediaSeconds(0, 2)).toBe(40);
+    });
+  });
+
+  describe('formatDuration', () => {
+    it.each([
+      [0, '0 sec'],
+      [45, '45 sec'],
+      [60, '1 min'],
+      [252, '4 min 12 sec'],
+      [3600, '1 hr'],
+      [3930, '1 hr 5 min'],
+    ])('should format %i seconds as "%s"', (seconds, expected) => {
+      expect(formatDuration(seconds)).toBe(expected);
+    });
+  });
+});
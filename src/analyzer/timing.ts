@@ -0,0 +1,71 @@
+// Average silent reading speed of adults for non-fiction (Brysbaert, 2019)
+export const READING_WORDS_PER_MINUTE = 238;
+
+// Typical speaking speed for presentations and narration
+export const SPEAKING_WORDS_PER_MINUTE = 150;
+
+// Rates for languages measured in characters rather than words
+export const READING_CHARACTERS_PER_MINUTE = 300;
+export const SPEAKING_CHARACTERS_PER_MINUTE = 250;
+
+// Languages written without spaces between words, whose length is measured in characters
+const CHARACTER_LANGUAGES = new Set(['zh', 'ja', 'ko']);
+
+// Viewing time for the first image; each later image takes a second less, down to the minimum
+const FIRST_IMAGE_SECONDS = 12;
+const MIN_IMAGE_SECONDS = 3;
+
+// Time spent reading a code block
+const CODE_BLOCK_SECONDS = 20;
+
+/**
+ * Checks whether a locale's reading and speaking time is measured in characters per minute,
+ * as for Chinese, Japanese and Korean.
+ * @param locale A BCP 47 language tag, e.g., "ja-JP".
+ * @returns True if characters rather than words should be counted.
+ */
+export function usesCharacterRate(locale: string): boolean {
+  return CHARACTER_LANGUAGES.has(locale.split('-')[0].toLowerCase());
+}
+
+/**
+ * Counts the characters that character-based rates apply to: letters and digits, but not
+ * whitespace or punctuation.
+ * @param text The text to measure.
+ * @returns The number of letters and digits.
+ */
+export function countRateCharacters(text: string): number {
+  return text ? text.match(/[\p{L}\p{N}]/gu)?.length ?? 0 : 0;
+}
+
+/**
+ * Computes the time spent looking at images and reading code blocks that are not part of the prose.
+ * @param images Number of images.
+ * @param codeBlocks Number of code blocks.
+ * @returns The extra reading time in seconds.
+ */
+export function mediaSeconds(images: number, codeBlocks: number): number {
+  let seconds = codeBlocks * CODE_BLOCK_SECONDS;
+  for (let image = 0; image < images; image++) {
+    seconds += Math.max(MIN_IMAGE_SECONDS, FIRST_IMAGE_SECONDS - image);
+  }
+  return seconds;
+}
+
+/**
+ * Formats a duration for display.
+ * @param seconds The duration in whole seconds.
+ * @returns A string such as "45 sec", "4 min 12 sec" or "1 hr 5 min".
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} sec`;
+  }
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor(seconds % 3600 / 60);
+  if (hours > 0) {
+    return minutes > 0 ? `${hours} hr ${minutes} min` : `${hours} hr`;
+  }
+  const remainder = seconds % 60;
+  return remainder > 0 ? `${minutes} min ${remainder} sec` : `${minutes} min`;
+}
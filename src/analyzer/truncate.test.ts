@@ -0,0 +1,67 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { truncateText } from './truncate.js';
+
+describe('truncateText', () => {
+  const analyzer = new TextAnalyzer('en-US');
+  const text = 'The quick brown fox jumps. It lands softly! Then it runs away.';
+
+  it('should leave text within the limit unchanged', () => {
+    expect(truncateText(analyzer, text, { unit: 'words', limit: 12 })).toEqual({
+      text,
+      truncated: false,
+      originalCount: 12,
+      count: 12,
+      cutAt: text.length,
+    });
+  });
+
+  it('should cut to a number of words', () => {
+    const result = truncateText(analyzer, text, { unit: 'words', limit: 7 });
+
+    expect(result).toEqual({ text: 'The quick brown fox jumps. It lands', truncated: true, originalCount: 12, count: 7, cutAt: 35 });
+  });
+
+  it('should count the ellipsis towards the limit', () => {
+    expect(truncateText(analyzer, text, { unit: 'characters', limit: 20, ellipsis: '…' }).text).toBe('The quick brown fox…');
+    expect(truncateText(analyzer, text, { unit: 'characters', limit: 19, ellipsis: '…' }).text).toBe('The quick brown…');
+    expect(truncateText(analyzer, text, { unit: 'words', limit: 2, ellipsis: ' [more]' }).text).toBe('The [more]');
+  });
+
+  it('should not split words or grapheme clusters when cutting to characters', () => {
+    const result = truncateText(analyzer, 'Great job 👍🏽👍🏽 team', { unit: 'characters', limit: 11 });
+
+    expect(result.text).toBe('Great job 👍🏽');
+    expect(result.count).toBe(11);
+
+    expect(truncateText(analyzer, 'Supercalifragilistic', { unit: 'characters', limit: 5 }).text).toBe('');
+  });
+
+  it('should cut to a number of sentences', () => {
+    const result = truncateText(analyzer, text, { unit: 'sentences', limit: 2, ellipsis: '..' });
+
+    expect(result.text).toBe('The quick brown fox jumps. It lands softly!..');
+    expect(result.originalCount).toBe(3);
+  });
+
+  it('should keep whole sentences, falling back to words', () => {
+    expect(truncateText(analyzer, text, { unit: 'words', limit: 10, wholeSentences: true }).text)
+      .toBe('The quick brown fox jumps. It lands softly!');
+    expect(truncateText(analyzer, text, { unit: 'characters', limit: 30, wholeSentences: true }).text)
+      .toBe('The quick brown fox jumps.');
+    expect(truncateText(analyzer, text, { unit: 'words', limit: 3, wholeSentences: true }).text)
+      .toBe('The quick brown');
+  });
+
+  it('should respect smart sentence splitting', () => {
+    const result = truncateText(analyzer, 'Dr. Smith arrived. He sat down.', {
+      unit: 'sentences',
+      limit: 1,
+      sentences: { mode: 'smart' },
+    });
+    expect(result.text).toBe('Dr. Smith arrived.');
+  });
+
+  it('should drop an ellipsis longer than the limit', () => {
+    expect(truncateText(analyzer, text, { unit: 'characters', limit: 3, ellipsis: '[...]' }).text).toBe('The');
+  });
+});
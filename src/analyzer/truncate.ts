@@ -0,0 +1,120 @@
+import { SentenceCountOptions, TextAnalyzer } from './TextAnalyzer.js';
+
+/**
+ * Units a text can be truncated to: words, user-perceived characters (graphemes) or sentences.
+ */
+export type TruncateUnit = 'words' | 'characters' | 'sentences';
+
+export interface TruncateOptions {
+  unit: TruncateUnit;
+  /** Largest number of units to keep, including those of the ellipsis. */
+  limit: number;
+  /** Suffix appended when the text is cut, e.g. "…"; omitted if it alone exceeds the limit. */
+  ellipsis?: string;
+  /**
+   * Cut after the last whole sentence that fits, for the words and characters units. Falls back
+   * to a word boundary when not even the first sentence fits.
+   */
+  wholeSentences?: boolean;
+  /** Sentence splitting options for the sentences unit and wholeSentences. */
+  sentences?: SentenceCountOptions;
+}
+
+export interface TruncateResult {
+  /** The truncated text, including the ellipsis, or the original text if it was within the limit. */
+  text: string;
+  truncated: boolean;
+  /** Length of the original text in the unit. */
+  originalCount: number;
+  /** Length of the result in the unit. */
+  count: number;
+  /** UTF-16 offset in the original text where the kept part ends. */
+  cutAt: number;
+}
+
+/**
+ * Cuts a text down to a number of words, characters or sentences. Cuts are only made at the end
+ * of a word or sentence, or after punctuation or an emoji for characters, so grapheme clusters
+ * and words are never split; whitespace before the cut is dropped.
+ * @param analyzer The analyzer whose segmenters determine the boundaries.
+ * @param text The text to truncate.
+ * @param options The unit, limit, ellipsis and sentence options.
+ * @returns The truncated text and its length before and after.
+ */
+export function truncateText(analyzer: TextAnalyzer, text: string, options: TruncateOptions): TruncateResult {
+  const measure = (value: string) => measureUnit(analyzer, value, options);
+
+  const originalCount = measure(text);
+  if (originalCount <= options.limit) {
+    return { text, truncated: false, originalCount, count: originalCount, cutAt: text.length };
+  }
+
+  // The ellipsis takes up part of the limit, except for sentences where it extends the last one
+  const ellipsisCount = options.ellipsis && options.unit !== 'sentences' ? measure(options.ellipsis) : 0;
+  const ellipsis = ellipsisCount <= options.limit ? options.ellipsis ?? '' : '';
+  const budget = Math.floor(options.limit) - (ellipsis ? ellipsisCount : 0);
+
+  const sentenceEnds = analyzer
+    .getSentenceSegments(text, options.sentences)
+    .map(sentence => sentence.index + sentence.segment.trimEnd().length);
+
+  let cutAt = 0;
+  if (options.unit === 'sentences') {
+    cutAt = budget > 0 ? sentenceEnds[budget - 1] : 0;
+  } else {
+    const fits = (end: number) => measure(text.slice(0, end)) <= budget;
+    if (options.wholeSentences) {
+      cutAt = lastFitting(sentenceEnds, fits);
+    }
+    if (cutAt === 0) {
+      // Words end at word-like segments; characters may also end after punctuation or emoji
+      const wordEnds = [...analyzer.segment(text, 'word')]
+        .filter(segment => segment.isWordLike || (options.unit === 'characters' && segment.segment.trim() !== ''))
+        .map(segment => segment.index + segment.segment.length);
+      cutAt = lastFitting(wordEnds, fits);
+    }
+  }
+
+  const kept = text.slice(0, cutAt).trimEnd();
+  const result = kept + ellipsis;
+  return { text: result, truncated: true, originalCount, count: measure(result), cutAt: kept.length };
+}
+
+/**
+ * Measures a text in the truncation unit.
+ * @param analyzer The analyzer used to count.
+ * @param text The text to measure.
+ * @param options The unit and sentence options.
+ * @returns The number of words, characters or sentences.
+ */
+function measureUnit(analyzer: TextAnalyzer, text: string, options: TruncateOptions): number {
+  switch (options.unit) {
+    case 'characters':
+      return analyzer.countCharacters(text);
+    case 'sentences':
+      return analyzer.countSentences(text, options.sentences);
+    default:
+      return analyzer.countWords(text);
+  }
+}
+
+/**
+ * Finds the last cut point whose prefix fits, assuming that longer prefixes never fit better.
+ * @param ends Candidate cut points in increasing order.
+ * @param fits Checks whether the prefix up to a cut point fits.
+ * @returns The last fitting cut point, or 0 if none fits.
+ */
+function lastFitting(ends: number[], fits: (end: number) => boolean): number {
+  let low = 0;
+  let high = ends.length;
+  // Invariant: ends[0..low) fit and ends[high..] do not
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (fits(ends[middle])) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low > 0 ? ends[low - 1] : 0;
+}
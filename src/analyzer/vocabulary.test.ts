@@ -0,0 +1,80 @@
+import { TextAnalyzer } from './TextAnalyzer.js';
+import { analyzeVocabulary } from './vocabulary.js';
+
+describe('analyzeVocabulary', () => {
+  const analyzer = new TextAnalyzer('en-US');
+
+  it('should return empty statistics for text without words', () => {
+    expect(analyzeVocabulary(analyzer, '')).toEqual({
+      totalWords: 0,
+      uniqueWords: 0,
+      typeTokenRatio: 0,
+      mtld: null,
+      hdd: null,
+      hapaxLegomena: 0,
+      averageWordLength: 0,
+      longWords: 0,
+      longWordRatio: 0,
+      sentenceLengths: { count: 0, mean: 0, median: 0, standardDeviation: 0, longest: null },
+    });
+  });
+
+  it('should count unique words and hapax legomena case-insensitively', () => {
+    const stats = analyzeVocabulary(analyzer, 'The cat saw the other cat. A dog barked.');
+
+    expect(stats).toMatchObject({ totalWords: 9, uniqueWords: 7, typeTokenRatio: 0.7778, hapaxLegomena: 5 });
+    expect(analyzeVocabulary(analyzer, 'The the THE', { caseSensitive: true }).uniqueWords).toBe(3);
+  });
+
+  it('should measure word lengths in graphemes', () => {
+    const stats = analyzeVocabulary(analyzer, 'Café extraordinary naïveté go');
+
+    // 4 + 13 + 7 + 2 characters
+    expect(stats.averageWordLength).toBe(6.5);
+    expect(stats).toMatchObject({ longWords: 2, longWordRatio: 0.5 });
+    expect(analyzeVocabulary(analyzer, 'Café extraordinary naïveté go', { longWordLength: 4 }).longWords).toBe(3);
+  });
+
+  it('should compute MTLD from the runs that keep the type-token ratio above 0.72', () => {
+    // Each pair "a a" drops the ratio to 0.5, completing a factor
+    expect(analyzeVocabulary(analyzer, 'a a a a').mtld).toBe(2);
+    // No word repeats, so no factor ends
+    expect(analyzeVocabulary(analyzer, 'one two three').mtld).toBeNull();
+  });
+
+  it('should compute HD-D as the expected type-token ratio of a 42-word sample', () => {
+    const unique = Array.from({ length: 42 }, (_, index) => `w${index}`).join(' ');
+
+    expect(analyzeVocabulary(analyzer, unique).hdd).toBe(1);
+    expect(analyzeVocabulary(analyzer, 'same '.repeat(50)).hdd).toBe(0.0238);
+    expect(analyzeVocabulary(analyzer, 'too short').hdd).toBeNull();
+  });
+
+  it('should rank more diverse texts higher', () => {
+    const repetitive = 'the cat and the dog and the cat and the dog '.repeat(10);
+    const diverse = Array.from({ length: 100 }, (_, index) => (index % 3 === 0 ? 'the' : `word${index}`)).join(' ');
+    const low = analyzeVocabulary(analyzer, repetitive);
+    const high = analyzeVocabulary(analyzer, diverse);
+
+    expect(high.mtld).toBeGreaterThan(low.mtld ?? 0);
+    expect(high.hdd).toBeGreaterThan(low.hdd ?? 0);
+  });
+
+  it('should describe the distribution of sentence lengths', () => {
+    const { sentenceLengths } = analyzeVocabulary(analyzer, 'One two. One two three four five six. Three words here. Hi.');
+
+    expect(sentenceLengths).toEqual({
+      count: 4,
+      mean: 3,
+      median: 2.5,
+      standardDeviation: 1.87,
+      longest: { index: 1, wordCount: 6, text: 'One two three four five six.' },
+    });
+  });
+
+  it('should split sentences with the given options', () => {
+    const text = 'Dr. Smith arrived. He sat down.';
+
+    expect(analyzeVocabulary(analyzer, text, { sentences: { mode: 'smart' } }).sentenceLengths.count).toBe(2);
+  });
+});
@@ -0,0 +1,218 @@
+import { SentenceCountOptions, TextAnalyzer } from './TextAnalyzer.js';
+import { round } from './rounding.js';
+
+// Running type-token ratio at which an MTLD factor is complete (McCarthy and Jarvis, 2010)
+const MTLD_THRESHOLD = 0.72;
+
+// Number of tokens in the random samples of HD-D (McCarthy and Jarvis, 2007)
+const HDD_SAMPLE_SIZE = 42;
+
+export interface VocabularyOptions {
+  /** Sentence splitting options for the sentence lengths. */
+  sentences?: SentenceCountOptions;
+  /** Treat words differing only in case as different words (default false). */
+  caseSensitive?: boolean;
+  /** Smallest number of characters (graphemes) of a long word (default 7, as in LIX). */
+  longWordLength?: number;
+}
+
+export interface SentenceLengthStatistics {
+  /** Number of sentences. */
+  count: number;
+  /** Mean number of words per sentence. */
+  mean: number;
+  median: number;
+  /** Population standard deviation of the words per sentence. */
+  standardDeviation: number;
+  /** The sentence with the most words (the first one on ties), or null for text without sentences. */
+  longest: {
+    /** Position of the sentence in the text, starting at 0. */
+    index: number;
+    wordCount: number;
+    /** The sentence without surrounding whitespace. */
+    text: string;
+  } | null;
+}
+
+export interface VocabularyStatistics {
+  totalWords: number;
+  /** Number of distinct words (types). */
+  uniqueWords: number;
+  /** Unique words divided by total words; depends strongly on the length of the text. */
+  typeTokenRatio: number;
+  /**
+   * Measure of Textual Lexical Diversity: the mean length of the word runs that keep a
+   * type-token ratio above 0.72, averaged over a forward and a backward pass. Null when no
+   * word repeats, since no run ends.
+   */
+  mtld: number | null;
+  /**
+   * HD-D: the expected type-token ratio of a random sample of 42 words, from the
+   * hypergeometric distribution. Null for texts of fewer than 42 words.
+   */
+  hdd: number | null;
+  /** Number of words that occur exactly once. */
+  hapaxLegomena: number;
+  /** Mean number of characters (graphemes) per word. */
+  averageWordLength: number;
+  /** Number of words with at least longWordLength characters. */
+  longWords: number;
+  /** Long words divided by total words. */
+  longWordRatio: number;
+  sentenceLengths: SentenceLengthStatistics;
+}
+
+/**
+ * Computes lexical diversity and word and sentence length statistics. Ratios are rounded to
+ * four decimals, lengths to two.
+ * @param analyzer The analyzer used to split sentences and words.
+ * @param text The text to analyze.
+ * @param options Sentence options, case folding and the long word threshold.
+ * @returns The vocabulary statistics.
+ */
+export function analyzeVocabulary(
+  analyzer: TextAnalyzer,
+  text: string,
+  options: VocabularyOptions = {}
+): VocabularyStatistics {
+  const longWordLength = options.longWordLength ?? 7;
+  const sentences = analyzer.getSentences(text, options.sentences);
+
+  const tokens: string[] = [];
+  const sentenceWords: number[] = [];
+  let characters = 0;
+  let longWords = 0;
+  for (const sentence of sentences) {
+    const words = analyzer.getWords(sentence);
+    sentenceWords.push(words.length);
+    for (const word of words) {
+      const length = analyzer.countCharacters(word);
+      characters += length;
+      if (length >= longWordLength) {
+        longWords++;
+      }
+      tokens.push(options.caseSensitive ? word : word.toLocaleLowerCase(analyzer.locale));
+    }
+  }
+
+  const frequencies = new Map<string, number>();
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+  }
+  let hapaxLegomena = 0;
+  for (const count of frequencies.values()) {
+    if (count === 1) {
+      hapaxLegomena++;
+    }
+  }
+
+  const total = tokens.length;
+  return {
+    totalWords: total,
+    uniqueWords: frequencies.size,
+    typeTokenRatio: total > 0 ? round(frequencies.size / total, 4) : 0,
+    mtld: measureMtld(tokens),
+    hdd: measureHdd(frequencies, total),
+    hapaxLegomena,
+    averageWordLength: total > 0 ? round(characters / total, 2) : 0,
+    longWords,
+    longWordRatio: total > 0 ? round(longWords / total, 4) : 0,
+    sentenceLengths: describeSentenceLengths(sentences, sentenceWords),
+  };
+}
+
+/**
+ * Computes MTLD as the mean of a forward and a backward pass.
+ * @param tokens The words in order, case-folded if required.
+ * @returns MTLD rounded to two decimals, or null if no word repeats.
+ */
+function measureMtld(tokens: string[]): number | null {
+  const forward = mtldFactors(tokens);
+  const backward = mtldFactors([...tokens].reverse());
+  if (forward === 0 || backward === 0) {
+    return null;
+  }
+  return round((tokens.length / forward + tokens.length / backward) / 2, 2);
+}
+
+/**
+ * Counts the MTLD factors of one pass: a factor ends whenever the running type-token ratio
+ * falls to the threshold, and the unfinished run at the end counts as a partial factor.
+ * @param tokens The words in the order of the pass.
+ * @returns The number of factors, including the partial one.
+ */
+function mtldFactors(tokens: string[]): number {
+  let factors = 0;
+  let types = new Set<string>();
+  let length = 0;
+  for (const token of tokens) {
+    types.add(token);
+    length++;
+    if (types.size / length <= MTLD_THRESHOLD) {
+      factors++;
+      types = new Set();
+      length = 0;
+    }
+  }
+  if (length > 0) {
+    factors += (1 - types.size / length) / (1 - MTLD_THRESHOLD);
+  }
+  return factors;
+}
+
+/**
+ * Computes HD-D, summing for each word the probability that it occurs in a random sample,
+ * divided by the sample size.
+ * @param frequencies Occurrences of each word.
+ * @param total Number of words.
+ * @returns HD-D rounded to four decimals, or null for texts shorter than the sample.
+ */
+function measureHdd(frequencies: Map<string, number>, total: number): number | null {
+  if (total < HDD_SAMPLE_SIZE) {
+    return null;
+  }
+  let sum = 0;
+  for (const count of frequencies.values()) {
+    // Probability that a sample without replacement misses every occurrence of the word
+    let miss = 1;
+    for (let drawn = 0; drawn < HDD_SAMPLE_SIZE && miss > 0; drawn++) {
+      miss *= Math.max(0, total - count - drawn) / (total - drawn);
+    }
+    sum += (1 - miss) / HDD_SAMPLE_SIZE;
+  }
+  return round(sum, 4);
+}
+
+/**
+ * Summarizes the number of words per sentence.
+ * @param sentences The sentences.
+ * @param sentenceWords The number of words of each sentence.
+ * @returns Mean, median, standard deviation and the longest sentence.
+ */
+function describeSentenceLengths(sentences: string[], sentenceWords: number[]): SentenceLengthStatistics {
+  const count = sentenceWords.length;
+  if (count === 0) {
+    return { count, mean: 0, median: 0, standardDeviation: 0, longest: null };
+  }
+
+  const mean = sentenceWords.reduce((sum, words) => sum + words, 0) / count;
+  const variance = sentenceWords.reduce((sum, words) => sum + (words - mean) ** 2, 0) / count;
+  const sorted = [...sentenceWords].sort((a, b) => a - b);
+  const middle = Math.floor(count / 2);
+  const median = count % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+  let longest = 0;
+  for (let index = 1; index < count; index++) {
+    if (sentenceWords[index] > sentenceWords[longest]) {
+      longest = index;
+    }
+  }
+
+  return {
+    count,
+    mean: round(mean, 2),
+    median,
+    standardDeviation: round(Math.sqrt(variance), 2),
+    longest: { index: longest, wordCount: sentenceWords[longest], text: sentences[longest].trim() },
+  };
+}
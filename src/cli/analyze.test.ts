@@ -0,0 +1,104 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { UsageError, parseAnalyzeArgs, runAnalyzeCommand } from './analyze.js';
+
+/**
+ * Runs the analyze command with the given standard input and captures its output
+ */
+async function run(args: string[], stdin = '') {
+  let stdout = '';
+  let stderr = '';
+  const code = await runAnalyzeCommand(args, {
+    stdin: Readable.from([Buffer.from(stdin)]),
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  });
+  return { code, stdout, stderr };
+}
+
+describe('analyze command', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'wordcount-cli-'));
+    writeFileSync(path.join(dir, 'plain.txt'), 'One two three. Four five.');
+    writeFileSync(path.join(dir, 'doc.md'), '# Title\n\nSome **bold** words.\n\n```\nconst ignored = true;\n```\n');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseAnalyzeArgs', () => {
+    it('should parse short and long options', () => {
+      expect(parseAnalyzeArgs(['-o', 'csv', '--locale', 'de', '-f', 'markdown', 'a.txt', '-'])).toEqual({
+        files: ['a.txt', '-'],
+        locale: 'de',
+        output: 'csv',
+        format: 'markdown',
+        encoding: undefined,
+      });
+    });
+
+    it('should return undefined for --help', () => {
+      expect(parseAnalyzeArgs(['--help'])).toBeUndefined();
+    });
+
+    it('should reject missing files and invalid options', () => {
+      expect(() => parseAnalyzeArgs([])).toThrow(UsageError);
+      expect(() => parseAnalyzeArgs(['-o', 'xml', 'a.txt'])).toThrow('Invalid --output "xml"');
+      expect(() => parseAnalyzeArgs(['--unknown', 'a.txt'])).toThrow(UsageError);
+    });
+  });
+
+  describe('runAnalyzeCommand', () => {
+    it('should analyze standard input', async () => {
+      const { code, stdout } = await run(['-o', 'json', '-'], 'Hello world. Bye.');
+
+      expect(code).toBe(0);
+      const report = JSON.parse(stdout);
+      expect(report.files[0]).toMatchObject({ path: '-', format: 'text', result: { wordCount: 3, sentenceCount: 2 } });
+      expect(report.totals.wordCount).toBe(3);
+    });
+
+    it('should detect the format from the extension and sum the totals', async () => {
+      const { code, stdout } = await run(['-o', 'json', path.join(dir, 'plain.txt'), path.join(dir, 'doc.md')]);
+
+      expect(code).toBe(0);
+      const report = JSON.parse(stdout);
+      expect(report.files.map((file: any) => file.format)).toEqual(['text', 'markdown']);
+      expect(report.files[1].result.wordCount).toBe(4);
+      expect(report.files[1].excluded.codeBlocks).toBe(1);
+      expect(report.totals.wordCount).toBe(9);
+    });
+
+    it('should use the requested locale', async () => {
+      const { stdout } = await run(['-o', 'csv', '--locale', 'ja', '-'], '今日は良い天気です。');
+      expect(stdout.split('\n')[1]).toMatch(/^-,\d+,/);
+    });
+
+    it('should report unreadable files and exit with 1', async () => {
+      const { code, stdout, stderr } = await run(['-o', 'csv', path.join(dir, 'plain.txt'), path.join(dir, 'missing.txt')]);
+
+      expect(code).toBe(1);
+      expect(stderr).toContain('missing.txt: No such file or directory');
+      expect(stdout.trimEnd().split('\n')).toHaveLength(3);
+    });
+
+    it('should exit with 2 on invalid usage or locale', async () => {
+      expect((await run([])).code).toBe(2);
+
+      const { code, stderr } = await run(['--locale', 'not a locale', '-']);
+      expect(code).toBe(2);
+      expect(stderr).toContain('Unsupported locale');
+    });
+
+    it('should print usage for --help', async () => {
+      const { code, stdout } = await run(['--help']);
+      expect(code).toBe(0);
+      expect(stdout).toContain('Usage: wordcount-mcp analyze');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { promises as fs } from "node:fs";
+import { parseArgs } from "node:util";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { TextAnalysisResult } from "../analyzer/TextAnalyzer.js";
+import { TextFormat, formatFromFileName } from "../analyzer/formats.js";
+import { DetectedEncoding, decodeFile } from "../files/encoding.js";
+import { excludedMedia, prepareInput } from "../tools/shared.js";
+import { AnalyzeReport, FileReport, OUTPUT_FORMATS, OutputFormat, formatReport } from "./output.js";
+
+/**
+ * Streams used by the analyze command, replaceable for testing
+ */
+export interface CliStreams {
+  stdin: AsyncIterable<Buffer | string>;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+/**
+ * Options of the analyze command after parsing
+ */
+export interface AnalyzeCommandOptions {
+  files: string[];
+  locale?: string;
+  output: OutputFormat;
+  format?: TextFormat;
+  encoding?: DetectedEncoding;
+}
+
+/**
+ * Error for invalid command line usage
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// Exit codes: every input analyzed, some inputs failed, invalid usage
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+// Path that stands for standard input
+const STDIN_PATH = "-";
+
+const INPUT_FORMATS: readonly TextFormat[] = ["text", "markdown", "html", "xml"];
+const ENCODINGS: readonly DetectedEncoding[] = ["utf-8", "utf-16le", "utf-16be", "windows-1252"];
+
+export const ANALYZE_USAGE = `Usage: wordcount-mcp analyze [options] <file...>
+
+Count words, letters, characters, sentences and paragraphs and estimate reading and
+speaking time of each file, with a totals row. Use "-" to read standard input.
+
+Options:
+  -l, --locale <tag>      BCP 47 locale for segmentation (default: WORDCOUNT_LOCALE or en-US)
+  -o, --output <format>   Output format: table (default), json or csv
+  -f, --format <format>   Input format: text, markdown, html or xml
+                          (default: detected from the file extension, text for stdin)
+  -e, --encoding <name>   Text encoding: utf-8, utf-16le, utf-16be or windows-1252
+                          (default: detected from the contents)
+  -h, --help              Show this help
+`;
+
+/**
+ * Parses the arguments of the analyze command.
+ * @param args The arguments following "analyze".
+ * @returns The parsed options, or undefined if help was requested.
+ * @throws UsageError if an option is unknown or invalid, or no file is given.
+ */
+export function parseAnalyzeArgs(args: string[]): AnalyzeCommandOptions | undefined {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      options: {
+        locale: { type: "string", short: "l" },
+        output: { type: "string", short: "o" },
+        format: { type: "string", short: "f" },
+        encoding: { type: "string", short: "e" },
+        help: { type: "boolean", short: "h" },
+      },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return undefined;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No input files: give one or more paths, or "-" for standard input');
+  }
+
+  return {
+    files: positionals,
+    locale: values.locale ?? (process.env.WORDCOUNT_LOCALE || undefined),
+    output: oneOf("output", values.output, OUTPUT_FORMATS) ?? "table",
+    format: oneOf("format", values.format, INPUT_FORMATS),
+    encoding: oneOf("encoding", values.encoding, ENCODINGS),
+  };
+}
+
+/**
+ * Runs the analyze command: analyzes each input and writes the report to stdout.
+ * Inputs that cannot be read are reported on stderr and left out of the report.
+ * @param args The arguments following "analyze".
+ * @param streams The standard streams to use.
+ * @returns The process exit code: 0 on success, 1 if any input failed, 2 on invalid usage.
+ */
+export async function runAnalyzeCommand(args: string[], streams: CliStreams = process): Promise<number> {
+  let options: AnalyzeCommandOptions | undefined;
+  let analyzers: AnalyzerCache;
+  try {
+    options = parseAnalyzeArgs(args);
+    if (!options) {
+      streams.stdout.write(ANALYZE_USAGE);
+      return EXIT_OK;
+    }
+    analyzers = new AnalyzerCache(options.locale);
+  } catch (error) {
+    streams.stderr.write(`wordcount-mcp analyze: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof UsageError) {
+      streams.stderr.write(`Run "wordcount-mcp analyze --help" for usage.\n`);
+    }
+    return EXIT_USAGE;
+  }
+
+  const files: FileReport[] = [];
+  const totals: TextAnalysisResult = {
+    wordCount: 0,
+    letterCount: 0,
+    characterCount: 0,
+    sentenceCount: 0,
+    paragraphCount: 0,
+    readingTimeSeconds: 0,
+    speakingTimeSeconds: 0,
+  };
+  let failed = false;
+
+  for (const path of options.files) {
+    try {
+      const report = await analyzeInput(analyzers, path, options, streams);
+      files.push(report);
+      for (const metric of Object.keys(totals) as Array<keyof TextAnalysisResult>) {
+        totals[metric] += report.result[metric];
+      }
+    } catch (error) {
+      failed = true;
+      streams.stderr.write(`wordcount-mcp analyze: ${path}: ${errorMessage(error)}\n`);
+    }
+  }
+
+  const report: AnalyzeReport = { files, totals };
+  streams.stdout.write(formatReport(report, options.output));
+  return failed ? EXIT_FAILURE : EXIT_OK;
+}
+
+/**
+ * Reads, decodes and analyzes a file or standard input.
+ * @param analyzers The analyzer cache holding the selected locale.
+ * @param path The file path, or "-" for standard input.
+ * @param options The parsed command options.
+ * @param streams The standard streams to read "-" from.
+ * @returns The input's analysis.
+ */
+async function analyzeInput(
+  analyzers: AnalyzerCache,
+  path: string,
+  options: AnalyzeCommandOptions,
+  streams: CliStreams
+): Promise<FileReport> {
+  const bytes = path === STDIN_PATH ? await readAll(streams.stdin) : await fs.readFile(path);
+  const { text, encoding } = decodeFile(bytes, options.encoding);
+  const format = options.format ?? (path === STDIN_PATH ? "text" : formatFromFileName(path));
+  const { analyzer, text: prose, excluded } = prepareInput(analyzers, { text, format });
+
+  return {
+    path,
+    encoding,
+    format,
+    result: analyzer.analyzeText(prose, excludedMedia(excluded)),
+    ...(excluded ? { excluded } : {}),
+  };
+}
+
+/**
+ * Reads a stream to the end.
+ * @param stream The stream to read.
+ * @returns The bytes read.
+ */
+async function readAll(stream: AsyncIterable<Buffer | string>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Validates an option against its allowed values.
+ * @param name The option name, for the error message.
+ * @param value The option value, if given.
+ * @param allowed The allowed values.
+ * @returns The value, or undefined if not given.
+ * @throws UsageError if the value is not allowed.
+ */
+function oneOf<T extends string>(name: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value !== undefined && !allowed.includes(value as T)) {
+    throw new UsageError(`Invalid --${name} "${value}": expected ${allowed.join(", ")}`);
+  }
+  return value as T | undefined;
+}
+
+// Messages for common file system errors, as printed by shell utilities
+const SYSTEM_ERROR_MESSAGES: Record<string, string> = {
+  ENOENT: "No such file or directory",
+  EISDIR: "Is a directory",
+  EACCES: "Permission denied",
+};
+
+/**
+ * Describes a file error without the stack trace, using the system error code where available.
+ * @param error The error thrown while reading or analyzing an input.
+ * @returns A one-line message.
+ */
+function errorMessage(error: unknown): string {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  if (code !== undefined && code in SYSTEM_ERROR_MESSAGES) {
+    return SYSTEM_ERROR_MESSAGES[code];
+  }
+  return error instanceof Error ? error.message : String(error);
+}
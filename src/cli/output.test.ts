@@ -0,0 +1,53 @@
+import { TextAnalysisResult } from '../analyzer/TextAnalyzer.js';
+import { AnalyzeReport, formatCsv, formatReport, formatTable } from './output.js';
+
+const result = (wordCount: number, readingTimeSeconds: number): TextAnalysisResult => ({
+  wordCount,
+  letterCount: wordCount * 4,
+  characterCount: wordCount * 5,
+  sentenceCount: 1,
+  paragraphCount: 1,
+  readingTimeSeconds,
+  speakingTimeSeconds: readingTimeSeconds * 2,
+});
+
+const report: AnalyzeReport = {
+  files: [
+    { path: 'a.txt', encoding: 'utf-8', format: 'text', result: result(2, 1) },
+    { path: 'notes, "draft".md', encoding: 'utf-8', format: 'markdown', result: result(300, 76) },
+  ],
+  totals: result(302, 77),
+};
+
+describe('output', () => {
+  describe('formatTable', () => {
+    it('should align columns and add a totals row', () => {
+      const lines = formatTable(report).trimEnd().split('\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toMatch(/^File\s+Words\s+Letters\s+Characters\s+Sentences\s+Paragraphs\s+Reading\s+Speaking$/);
+      expect(lines[1]).toMatch(/^a\.txt\s+2\s+8\s+10\s+1\s+1\s+1 sec\s+2 sec$/);
+      expect(lines[3]).toMatch(/^total\s+302\b/);
+      expect(lines[3]).toContain('1 min 17 sec');
+      // Right-aligned metrics end in the same column
+      expect(lines[1].indexOf(' 2 ') + 2).toBe(lines[3].indexOf('302') + 3);
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('should write seconds and quote fields with delimiters', () => {
+      expect(formatCsv(report)).toBe(
+        'path,wordCount,letterCount,characterCount,sentenceCount,paragraphCount,readingTimeSeconds,speakingTimeSeconds\n' +
+        'a.txt,2,8,10,1,1,1,2\n' +
+        '"notes, ""draft"".md",300,1200,1500,1,1,76,152\n' +
+        'total,302,1208,1510,1,1,77,154\n'
+      );
+    });
+  });
+
+  describe('formatReport', () => {
+    it('should render JSON with files and totals', () => {
+      expect(JSON.parse(formatReport(report, 'json'))).toEqual(report);
+    });
+  });
+});
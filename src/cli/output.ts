@@ -0,0 +1,112 @@
+import { TextAnalysisResult } from "../analyzer/TextAnalyzer.js";
+import { formatDuration } from "../analyzer/timing.js";
+import { DetectedEncoding } from "../files/encoding.js";
+import { TextFormat } from "../analyzer/formats.js";
+import { ExclusionReport } from "../tools/shared.js";
+
+/**
+ * Output formats of the analyze command
+ */
+export type OutputFormat = "table" | "json" | "csv";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["table", "json", "csv"];
+
+/**
+ * Analysis of one input of the analyze command
+ */
+export interface FileReport {
+  /** The path as given on the command line, or "-" for standard input */
+  path: string;
+  encoding: DetectedEncoding;
+  format: TextFormat;
+  result: TextAnalysisResult;
+  excluded?: ExclusionReport;
+}
+
+/**
+ * Analysis of all inputs of the analyze command
+ */
+export interface AnalyzeReport {
+  files: FileReport[];
+  totals: TextAnalysisResult;
+}
+
+// Label of the totals row in table and CSV output
+const TOTAL_LABEL = "total";
+
+// Metric columns in output order, with their table headings
+const COLUMNS: Array<{ metric: keyof TextAnalysisResult; heading: string }> = [
+  { metric: "wordCount", heading: "Words" },
+  { metric: "letterCount", heading: "Letters" },
+  { metric: "characterCount", heading: "Characters" },
+  { metric: "sentenceCount", heading: "Sentences" },
+  { metric: "paragraphCount", heading: "Paragraphs" },
+  { metric: "readingTimeSeconds", heading: "Reading" },
+  { metric: "speakingTimeSeconds", heading: "Speaking" },
+];
+
+/**
+ * Renders a report in the requested output format.
+ * @param report The per-file results and totals.
+ * @param output The output format.
+ * @returns The rendered report, ending with a newline.
+ */
+export function formatReport(report: AnalyzeReport, output: OutputFormat): string {
+  switch (output) {
+    case "json":
+      return JSON.stringify(report, null, 2) + "\n";
+    case "csv":
+      return formatCsv(report);
+    default:
+      return formatTable(report);
+  }
+}
+
+/**
+ * Renders a report as an aligned plain text table with a row per file and a totals row.
+ * Reading and speaking times are shown as human-readable durations.
+ * @param report The per-file results and totals.
+ * @returns The table.
+ */
+export function formatTable(report: AnalyzeReport): string {
+  const cell = (result: TextAnalysisResult, metric: keyof TextAnalysisResult) =>
+    metric === "readingTimeSeconds" || metric === "speakingTimeSeconds"
+      ? formatDuration(result[metric])
+      : String(result[metric]);
+
+  const rows = [
+    ["File", ...COLUMNS.map(column => column.heading)],
+    ...report.files.map(file => [file.path, ...COLUMNS.map(column => cell(file.result, column.metric))]),
+    [TOTAL_LABEL, ...COLUMNS.map(column => cell(report.totals, column.metric))],
+  ];
+  const widths = rows[0].map((_, index) => Math.max(...rows.map(row => row[index].length)));
+
+  // File names are left-aligned, metrics right-aligned
+  const lines = rows.map(row =>
+    row.map((value, index) => (index === 0 ? value.padEnd(widths[index]) : value.padStart(widths[index]))).join("  ").trimEnd()
+  );
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders a report as CSV with a header row, a row per file and a totals row. Times are in seconds.
+ * @param report The per-file results and totals.
+ * @returns The CSV text.
+ */
+export function formatCsv(report: AnalyzeReport): string {
+  const rows = [
+    ["path", ...COLUMNS.map(column => column.metric)],
+    ...report.files.map(file => [file.path, ...COLUMNS.map(column => String(file.result[column.metric]))]),
+    [TOTAL_LABEL, ...COLUMNS.map(column => String(report.totals[column.metric]))],
+  ];
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Quotes a CSV field if it contains a delimiter, quote or line break (RFC 4180).
+ * @param value The field value.
+ * @returns The field as it should appear in the CSV text.
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
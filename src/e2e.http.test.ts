@@ -0,0 +1,339 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'node:child_process';
+import path from 'node:path';
+
+interface HttpServer {
+  child: ChildProcessWithoutNullStreams;
+  url: string;
+}
+
+interface MCPResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+const INITIALIZE_PARAMS = {
+  protocolVersion: '2025-03-26',
+  capabilities: {},
+  clientInfo: { name: 'test-client', version: '1.0.0' }
+};
+
+/**
+ * Start the MCP server over HTTP on a free port and wait until it is listening
+ */
+async function startHttpServer(binPath: string, args: string[] = []): Promise<HttpServer> {
+  const child = spawn('node', [binPath, '--transport', 'http', '--port', '0', ...args], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, NODE_ENV: 'test' }
+  });
+
+  const url = await new Promise<string>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error('Server startup timeout'));
+    }, 5000);
+
+    child.stderr.on('data', (data) => {
+      const match = data.toString().match(/started successfully on (\S+)/);
+      if (match) {
+        clearTimeout(timeout);
+        resolve(match[1]);
+      }
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+  });
+
+  return { child, url };
+}
+
+/**
+ * Stop a server started by startHttpServer
+ */
+async function stopServer(server: HttpServer | undefined): Promise<void> {
+  const child = server?.child;
+  if (child && !child.killed) {
+    child.kill('SIGTERM');
+
+    await new Promise<void>((resolve) => {
+      child.on('close', () => resolve());
+      setTimeout(() => {
+        if (!child.killed) {
+          child.kill('SIGKILL');
+        }
+        resolve();
+      }, 2000);
+    });
+  }
+}
+
+/**
+ * Send a request to the server, reading JSON-RPC responses from JSON or event stream bodies
+ */
+async function send(url: string, init: RequestInit & { headers?: Record<string, string> }): Promise<MCPResponse> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...init.headers,
+    },
+    signal: AbortSignal.timeout(5000),
+  });
+
+  const text = await response.text();
+  let body: any;
+  if (response.headers.get('content-type')?.includes('text/event-stream')) {
+    const data = text.split('\n').filter(line => line.startsWith('data: ')).map(line => line.slice(6));
+    body = data.length > 0 ? JSON.parse(data[data.length - 1]) : undefined;
+  } else {
+    body = text ? JSON.parse(text) : undefined;
+  }
+  return { status: response.status, headers: response.headers, body };
+}
+
+/**
+ * Send a JSON-RPC request within a session
+ */
+function rpc(url: string, sessionId: string | undefined, method: string, params: any, headers: Record<string, string> = {}) {
+  return send(url, {
+    method: 'POST',
+    headers: { ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}), ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: Math.random().toString(36).substring(7), method, params }),
+  });
+}
+
+/**
+ * Initialize a new session and return its ID
+ */
+async function initialize(url: string, headers: Record<string, string> = {}): Promise<string> {
+  const response = await rpc(url, undefined, 'initialize', INITIALIZE_PARAMS, headers);
+  const sessionId = response.headers.get('mcp-session-id') as string;
+  await send(url, {
+    method: 'POST',
+    headers: { 'Mcp-Session-Id': sessionId, ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+  });
+  return sessionId;
+}
+
+describe('MCP Streamable HTTP End-to-End Tests', () => {
+  const binPath = path.resolve(process.cwd(), 'dist', 'index.js');
+  let server: HttpServer;
+
+  beforeAll(async () => {
+    server = await startHttpServer(binPath);
+  });
+
+  afterAll(async () => {
+    await stopServer(server);
+  });
+
+  describe('Sessions', () => {
+    it('should listen on a local port', () => {
+      expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+    });
+
+    it('should start a session on initialize', async () => {
+      const response = await rpc(server.url, undefined, 'initialize', INITIALIZE_PARAMS);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('mcp-session-id')).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.body.result.serverInfo.name).toBe('wordcount-mcp');
+    });
+
+    it('should list and call tools within a session', async () => {
+      const sessionId = await initialize(server.url);
+
+      const list = await rpc(server.url, sessionId, 'tools/list', {});
+      const toolNames = list.body.result.tools.map((tool: any) => tool.name);
+      expect(toolNames).toContain('count_words');
+      expect(toolNames).toContain('analyze_text');
+
+      const call = await rpc(server.url, sessionId, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: 'Hello shared world' }
+      });
+      expect(call.body.result.content[0].text).toBe('3');
+    });
+
+    it('should keep sessions independent', async () => {
+      const first = await initialize(server.url);
+      const second = await initialize(server.url);
+      expect(first).not.toBe(second);
+
+      const call = await rpc(server.url, second, 'tools/call', {
+        name: 'analyze_text',
+        arguments: { text: 'One. Two.' }
+      });
+      expect(call.body.result.structuredContent).toMatchObject({ wordCount: 2, sentenceCount: 2 });
+    });
+
+    it('should reject requests without a session', async () => {
+      const response = await rpc(server.url, undefined, 'tools/list', {});
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('No valid session ID');
+    });
+
+    it('should reject unknown sessions', async () => {
+      const response = await rpc(server.url, 'not-a-session', 'tools/list', {});
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe(-32001);
+    });
+
+    it('should end a session on DELETE', async () => {
+      const sessionId = await initialize(server.url);
+
+      const deleted = await send(server.url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+      expect(deleted.status).toBe(200);
+
+      const response = await rpc(server.url, sessionId, 'tools/list', {});
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject invalid JSON and unknown paths', async () => {
+      const invalid = await send(server.url, { method: 'POST', body: '{not json' });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error.code).toBe(-32700);
+
+      const unknown = await send(server.url.replace(/\/mcp$/, '/other'), { method: 'POST', body: '{}' });
+      expect(unknown.status).toBe(404);
+    });
+
+    it('should reject browser requests when no origin is allowed', async () => {
+      const response = await rpc(server.url, undefined, 'initialize', INITIALIZE_PARAMS, { Origin: 'https://evil.example' });
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Session and Body Limits', () => {
+    let limitedServer: HttpServer;
+
+    beforeAll(async () => {
+      limitedServer = await startHttpServer(binPath, ['--max-sessions', '2', '--session-timeout', '500', '--max-input-length', '1000']);
+    });
+
+    afterAll(async () => {
+      await stopServer(limitedServer);
+    });
+
+    it('should refuse new sessions while the maximum is open', async () => {
+      const first = await initialize(limitedServer.url);
+      await initialize(limitedServer.url);
+
+      const refused = await rpc(limitedServer.url, undefined, 'initialize', INITIALIZE_PARAMS);
+      expect(refused.status).toBe(503);
+      expect(refused.body.error.message).toContain('Too many sessions');
+
+      await send(limitedServer.url, { method: 'DELETE', headers: { 'Mcp-Session-Id': first } });
+      const accepted = await rpc(limitedServer.url, undefined, 'initialize', INITIALIZE_PARAMS);
+      expect(accepted.status).toBe(200);
+    });
+
+    it('should close sessions that stay idle for the session timeout', async () => {
+      // Let the sessions of the previous test expire
+      await new Promise(resolve => setTimeout(resolve, 700));
+      const sessionId = await initialize(limitedServer.url);
+
+      // Requests keep the session open
+      await new Promise(resolve => setTimeout(resolve, 250));
+      expect((await rpc(limitedServer.url, sessionId, 'tools/list', {})).status).toBe(200);
+      await new Promise(resolve => setTimeout(resolve, 250));
+      expect((await rpc(limitedServer.url, sessionId, 'tools/list', {})).status).toBe(200);
+
+      await new Promise(resolve => setTimeout(resolve, 900));
+      const expired = await rpc(limitedServer.url, sessionId, 'tools/list', {});
+      expect(expired.status).toBe(404);
+
+      // Expired sessions no longer count toward the maximum
+      await initialize(limitedServer.url);
+      const second = await rpc(limitedServer.url, undefined, 'initialize', INITIALIZE_PARAMS);
+      expect(second.status).toBe(200);
+    });
+
+    it('should size the largest request body by the maximum input length', async () => {
+      // The body is checked before the session, so no session is needed
+      const tooLarge = await rpc(limitedServer.url, undefined, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: 'word '.repeat(20000) }
+      });
+      expect(tooLarge.status).toBe(413);
+    });
+  });
+
+  describe('Bearer Authentication', () => {
+    let authServer: HttpServer;
+
+    beforeAll(async () => {
+      authServer = await startHttpServer(binPath, ['--auth-token', 's3cret-token']);
+    });
+
+    afterAll(async () => {
+      await stopServer(authServer);
+    });
+
+    it('should reject requests without a token', async () => {
+      const response = await rpc(authServer.url, undefined, 'initialize', INITIALIZE_PARAMS);
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    });
+
+    it('should reject requests with a wrong token', async () => {
+      const response = await rpc(authServer.url, undefined, 'initialize', INITIALIZE_PARAMS, {
+        Authorization: 'Bearer wrong-token'
+      });
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept requests with the token', async () => {
+      const headers = { Authorization: 'Bearer s3cret-token' };
+      const sessionId = await initialize(authServer.url, headers);
+
+      const call = await rpc(authServer.url, sessionId, 'tools/call', {
+        name: 'count_letters',
+        arguments: { text: 'abc' }
+      }, headers);
+      expect(call.body.result.content[0].text).toBe('3');
+    });
+  });
+
+  describe('CORS', () => {
+    let corsServer: HttpServer;
+    const origin = 'https://app.example.com';
+
+    beforeAll(async () => {
+      corsServer = await startHttpServer(binPath, ['--cors-origin', origin]);
+    });
+
+    afterAll(async () => {
+      await stopServer(corsServer);
+    });
+
+    it('should answer preflight requests from allowed origins', async () => {
+      const response = await fetch(corsServer.url, {
+        method: 'OPTIONS',
+        headers: { Origin: origin, 'Access-Control-Request-Method': 'POST' },
+        signal: AbortSignal.timeout(5000),
+      });
+
+      expect(response.status).toBe(204);
+      expect(response.headers.get('access-control-allow-origin')).toBe(origin);
+      expect(response.headers.get('access-control-allow-headers')).toContain('Mcp-Session-Id');
+    });
+
+    it('should expose the session header to allowed origins', async () => {
+      const response = await rpc(corsServer.url, undefined, 'initialize', INITIALIZE_PARAMS, { Origin: origin });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('access-control-allow-origin')).toBe(origin);
+      expect(response.headers.get('access-control-expose-headers')).toContain('Mcp-Session-Id');
+    });
+
+    it('should reject other origins', async () => {
+      const response = await rpc(corsServer.url, undefined, 'initialize', INITIALIZE_PARAMS, { Origin: 'https://other.example' });
+      expect(response.status).toBe(403);
+    });
+  });
+});
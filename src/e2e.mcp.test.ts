@@ -1,5 +1,9 @@
 import { spawn, ChildProcessWithoutNullStreams } from 'node:child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 
 interface MCPRequest {
   jsonrpc: string;
@@ -69,53 +73,66 @@ function mcpCall(child: ChildProcessWithoutNullStreams, method: string, params:
   });
 }
 
+/**
+ * Start the MCP server with the given arguments and wait until it is ready
+ */
+async function startServer(binPath: string, args: string[] = []): Promise<ChildProcessWithoutNullStreams> {
+  const child = spawn('node', [binPath, ...args], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, NODE_ENV: 'test' }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error('Server startup timeout'));
+    }, 5000);
+
+    child.stderr.on('data', (data) => {
+      if (data.toString().includes('wordcount-mcp server started successfully')) {
+        clearTimeout(timeout);
+        resolve();
+      }
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+  });
+
+  return child;
+}
+
+/**
+ * Stop a server started by startServer
+ */
+async function stopServer(child: ChildProcessWithoutNullStreams): Promise<void> {
+  if (child && !child.killed) {
+    child.kill('SIGTERM');
+
+    await new Promise<void>((resolve) => {
+      child.on('close', () => resolve());
+      setTimeout(() => {
+        if (!child.killed) {
+          child.kill('SIGKILL');
+        }
+        resolve();
+      }, 2000);
+    });
+  }
+}
+
 describe('MCP End-to-End Tests', () => {
   const binPath = path.resolve(process.cwd(), 'dist', 'index.js');
   let child: ChildProcessWithoutNullStreams;
 
   beforeAll(async () => {
     // Start the MCP server
-    child = spawn('node', [binPath], { 
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env, NODE_ENV: 'test' }
-    });
-
-    // Wait for server to start
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Server startup timeout'));
-      }, 5000);
-
-      child.stderr.on('data', (data) => {
-        const output = data.toString();
-        if (output.includes('wordcount-mcp server started successfully')) {
-          clearTimeout(timeout);
-          resolve();
-        }
-      });
-
-      child.on('error', (error) => {
-        clearTimeout(timeout);
-        reject(error);
-      });
-    });
+    child = await startServer(binPath);
   });
 
   afterAll(async () => {
-    if (child && !child.killed) {
-      child.kill('SIGTERM');
-      
-      // Wait for process to exit
-      await new Promise<void>((resolve) => {
-        child.on('close', () => resolve());
-        setTimeout(() => {
-          if (!child.killed) {
-            child.kill('SIGKILL');
-          }
-          resolve();
-        }, 2000);
-      });
-    }
+    await stopServer(child);
   });
 
   describe('MCP Protocol Compliance', () => {
@@ -137,7 +154,7 @@ describe('MCP End-to-End Tests', () => {
 
       expect(result).toHaveProperty('tools');
       expect(Array.isArray(result.tools)).toBe(true);
-      expect(result.tools).toHaveLength(5);
+      expect(result.tools).toHaveLength(19);
 
       const toolNames = result.tools.map((tool: any) => tool.name);
       expect(toolNames).toContain('count_words');
@@ -145,6 +162,29 @@ describe('MCP End-to-End Tests', () => {
       expect(toolNames).toContain('count_characters');
       expect(toolNames).toContain('count_sentences');
       expect(toolNames).toContain('count_paragraphs');
+      expect(toolNames).toContain('analyze_text');
+      expect(toolNames).toContain('readability');
+      expect(toolNames).toContain('word_frequency');
+      expect(toolNames).toContain('vocabulary_stats');
+      expect(toolNames).toContain('estimate_time');
+      expect(toolNames).toContain('check_limits');
+      expect(toolNames).toContain('truncate_text');
+      expect(toolNames).toContain('segment_text');
+      expect(toolNames).toContain('analyze_breakdown');
+      expect(toolNames).toContain('compare_texts');
+      expect(toolNames).toContain('begin_analysis');
+      expect(toolNames).toContain('append_text');
+      expect(toolNames).toContain('finish_analysis');
+      expect(toolNames).toContain('analyze_batch');
+    });
+
+    it('should declare an output schema for analyze_text', async () => {
+      const result = await mcpCall(child, 'tools/list', {});
+      const tool = result.tools.find((t: any) => t.name === 'analyze_text');
+
+      expect(tool).toHaveProperty('outputSchema');
+      expect(tool.outputSchema.properties).toHaveProperty('wordCount');
+      expect(tool.outputSchema.properties).toHaveProperty('paragraphCount');
     });
   });
 
@@ -196,6 +236,809 @@ describe('MCP End-to-End Tests', () => {
     });
   });
 
+  describe('Letter Counting', () => {
+    it('should count unicode letters by default and ascii letters on request', async () => {
+      const unicode = await mcpCall(child, 'tools/call', {
+        name: 'count_letters',
+        arguments: { text: 'café Straße' }
+      });
+      const ascii = await mcpCall(child, 'tools/call', {
+        name: 'count_letters',
+        arguments: { text: 'café Straße', mode: 'ascii' }
+      });
+
+      expect(unicode.content[0].text).toBe('10');
+      expect(ascii.content[0].text).toBe('8');
+    });
+
+    it('should return a per-script breakdown', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_letters',
+        arguments: { text: 'Hello Привет 你好', byScript: true }
+      });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        letterCount: 13,
+        scripts: { Latin: 5, Cyrillic: 6, Han: 2 },
+      });
+    });
+  });
+
+  describe('Character Count Units', () => {
+    it('should count in the requested unit', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_characters',
+        arguments: { text: 'Café 👍🏽', unit: 'utf8-bytes' }
+      });
+
+      expect(result.content[0].text).toBe('14');
+    });
+
+    it('should return the length in every unit', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_characters',
+        arguments: { text: 'Café 👍🏽', allUnits: true }
+      });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        graphemes: 6,
+        codePoints: 7,
+        utf16Units: 9,
+        utf8Bytes: 14,
+        nonWhitespace: 5,
+      });
+    });
+  });
+
+  describe('CJK Word Counting', () => {
+    it('should count Chinese and Japanese characters as words in cjk mode', async () => {
+      const standard = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: '東京タワーへ行く。Tokyo Tower', locale: 'ja-JP' }
+      });
+      const cjk = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: '東京タワーへ行く。Tokyo Tower', locale: 'ja-JP', mode: 'cjk' }
+      });
+
+      expect(Number(standard.content[0].text)).toBeLessThan(10);
+      expect(cjk.content[0].text).toBe('10');
+    });
+
+    it('should return a breakdown of CJK characters', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: '「テスト」です。', cjkBreakdown: true }
+      });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        ideographs: 0,
+        kana: 5,
+        hangul: 0,
+        fullWidthPunctuation: 3,
+        manuscriptCharacters: 8,
+        otherWords: 0,
+        total: 5,
+      });
+    });
+  });
+
+  describe('Word Count Profiles', () => {
+    it.each([
+      ['unicode', '8'],
+      ['ms-word', '8'],
+      ['google-docs', '9'],
+      ['wc', '7'],
+    ])('should count with the %s profile', async (profile, expected) => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: 'Re-read the e-mail — twice in 東京', profile }
+      });
+
+      expect(result.content[0].text).toBe(expected);
+    });
+
+    it('should reject unknown profiles', async () => {
+      try {
+        await mcpCall(child, 'tools/call', {
+          name: 'count_words',
+          arguments: { text: 'Hello', profile: 'libreoffice' }
+        });
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect(error instanceof Error ? error.message : String(error)).toContain('MCP Error');
+      }
+    });
+  });
+
+  describe('Sentence Counting', () => {
+    it('should handle abbreviations in smart mode', async () => {
+      const text = 'Dr. Smith met Mr. Jones. They talked.';
+      const standard = await mcpCall(child, 'tools/call', {
+        name: 'count_sentences',
+        arguments: { text }
+      });
+      const smart = await mcpCall(child, 'tools/call', {
+        name: 'count_sentences',
+        arguments: { text, mode: 'smart' }
+      });
+
+      expect(standard.content[0].text).toBe('4');
+      expect(smart.content[0].text).toBe('2');
+    });
+  });
+
+  describe('Markdown Input', () => {
+    const markdown = '# Title\n\nRead [the docs](https://example.com/docs).\n\n```js\nconst x = 1;\n```';
+
+    it('should count only visible prose and report exclusions', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: markdown, format: 'markdown' }
+      });
+
+      expect(result.content).toHaveLength(2);
+      expect(result.content[0].text).toBe('4');
+      expect(JSON.parse(result.content[1].text).excluded).toMatchObject({ codeBlocks: 1, frontMatter: false });
+    });
+
+    it('should honor the markdown switches', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'analyze_text',
+        arguments: { text: markdown, format: 'markdown', markdown: { codeBlocks: true }, metrics: ['paragraphCount'] }
+      });
+
+      expect(result.structuredContent.paragraphCount).toBe(3);
+      expect(result.structuredContent.excluded.codeBlocks).toBe(0);
+    });
+  });
+
+  describe('HTML Input', () => {
+    const html = '<html><head><title>Site</title><style>p{}</style></head><body>'
+      + '<nav>Home About</nav><main><p>Fish &amp; chips.</p><p>Tasty!</p></main>'
+      + '<script>var words = 1;</script></body></html>';
+
+    it('should strip markup, scripts and styles', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: html, format: 'html' }
+      });
+
+      expect(result.content[0].text).toBe('5');
+      expect(JSON.parse(result.content[1].text).excluded).toMatchObject({ scripts: 1, styles: 1 });
+    });
+
+    it('should restrict analysis to a selector', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_paragraphs',
+        arguments: { text: html, format: 'html', html: { selector: 'main' } }
+      });
+
+      expect(result.content[0].text).toBe('2');
+    });
+
+    it('should report selectors that match nothing as tool errors', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: html, format: 'html', html: { selector: 'article' } }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('did not match any element');
+    });
+  });
+
+  describe('Locale Selection', () => {
+    it('should accept a locale argument', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: 'สวัสดีครับ', locale: 'th' }
+      });
+
+      expect(result.content[0].text).toBe('2');
+    });
+
+    it('should reject unsupported locales', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: 'hello', locale: 'not a tag' }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('INVALID_LOCALE');
+      expect(JSON.parse(result.content[0].text).error.message).toContain('Unsupported locale');
+    });
+  });
+
+  describe('Analyze Text Tool', () => {
+    it('should return all metrics as structured content', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'analyze_text',
+        arguments: { text: 'Hello world! How are you?\n\nFine.' }
+      });
+
+      const expected = {
+        wordCount: 6,
+        letterCount: 23,
+        characterCount: 32,
+        sentenceCount: 3,
+        paragraphCount: 2,
+        readingTimeSeconds: 2,
+        speakingTimeSeconds: 3,
+      };
+      expect(result.structuredContent).toEqual(expected);
+      expect(result.content[0]).toHaveProperty('type', 'text');
+      expect(JSON.parse(result.content[0].text)).toEqual(expected);
+    });
+
+    it('should return only the requested metrics', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'analyze_text',
+        arguments: { text: 'Hello world!', metrics: ['wordCount', 'characterCount'] }
+      });
+
+      expect(result.structuredContent).toEqual({ wordCount: 2, characterCount: 12 });
+    });
+
+    it('should reject unknown metrics', async () => {
+      try {
+        await mcpCall(child, 'tools/call', {
+          name: 'analyze_text',
+          arguments: { text: 'Hello', metrics: ['syllableCount'] }
+        });
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect(error instanceof Error ? error.message : String(error)).toContain('MCP Error');
+      }
+    });
+  });
+
+  describe('Readability Tool', () => {
+    it('should return scores, statistics and a summary as structured content', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'readability',
+        arguments: { text: 'The Australian platypus is seemingly a hybrid of a mammal and reptilian creature.' }
+      });
+
+      expect(result.structuredContent.statistics).toMatchObject({ words: 13, sentences: 1, syllables: 26 });
+      expect(result.structuredContent.scores.fleschReadingEase).toBeCloseTo(24.4, 1);
+      expect(result.structuredContent.scores.fleschKincaidGrade).toBeCloseTo(13.1, 1);
+      expect(result.structuredContent.summary).toHaveProperty('audience', 'College');
+      expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('should return null scores for text without words', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'readability',
+        arguments: { text: '' }
+      });
+
+      expect(result.structuredContent.scores).toBeNull();
+      expect(result.structuredContent.summary).toBeNull();
+    });
+
+    it('should score only the prose of Markdown input', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'readability',
+        arguments: { text: '# Cats\n\nThe cat sat on the mat.\n\n```\nconst x = 1;\n```', format: 'markdown' }
+      });
+
+      expect(result.structuredContent.statistics).toMatchObject({ words: 7, sentences: 2 });
+      expect(result.structuredContent.excluded).toMatchObject({ codeBlocks: 1 });
+    });
+  });
+
+  describe('Word Frequency Tool', () => {
+    it('should return the top terms as structured content', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'word_frequency',
+        arguments: { text: 'Apples and pears. Apples are sweet, apples are red.', limit: 2 }
+      });
+
+      expect(result.structuredContent).toEqual({
+        totalTerms: 9,
+        uniqueTerms: 4,
+        terms: [
+          { term: 'apples', count: 3, percentage: 33.33 },
+          { term: 'pears', count: 1, percentage: 11.11 },
+        ],
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('should rank terms by TF-IDF when documents are given', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'word_frequency',
+        arguments: {
+          text: '# Energy\n\nSolar power and more solar power.',
+          format: 'markdown',
+          documents: ['# Power\n\nPower cuts.'],
+        }
+      });
+
+      expect(result.structuredContent.terms[0]).toMatchObject({ term: 'solar', documentFrequency: 1 });
+      expect(result.structuredContent.terms[1]).toMatchObject({ term: 'power', documentFrequency: 2 });
+    });
+
+    it('should reject unsupported n-gram sizes', async () => {
+      try {
+        await mcpCall(child, 'tools/call', {
+          name: 'word_frequency',
+          arguments: { text: 'Hello', ngram: 4 }
+        });
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect(error instanceof Error ? error.message : String(error)).toContain('MCP Error');
+      }
+    });
+  });
+
+  describe('Vocabulary Stats Tool', () => {
+    it('should report lexical diversity and sentence lengths', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'vocabulary_stats',
+        arguments: { text: 'The cat saw the other cat. A dog barked.' }
+      });
+
+      const stats = result.structuredContent;
+      expect(stats).toMatchObject({ totalWords: 9, uniqueWords: 7, hapaxLegomena: 5, hdd: null, longWords: 0 });
+      expect(stats.sentenceLengths).toMatchObject({ count: 2, mean: 4.5, longest: { index: 0, wordCount: 6 } });
+    });
+
+    it('should keep case when asked', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'vocabulary_stats',
+        arguments: { text: 'Word word WORD', caseSensitive: true, longWordLength: 4 }
+      });
+
+      expect(result.structuredContent).toMatchObject({ uniqueWords: 3, mtld: null, longWords: 3, longWordRatio: 1 });
+    });
+  });
+
+  describe('Estimate Time Tool', () => {
+    it('should return reading and speaking time in seconds and as text', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'estimate_time',
+        arguments: { text: Array(476).fill('word').join(' ') }
+      });
+
+      expect(result.structuredContent).toEqual({
+        unit: 'words',
+        length: 476,
+        reading: { seconds: 120, text: '2 min' },
+        speaking: { seconds: 191, text: '3 min 11 sec' },
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('should use custom rates', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'estimate_time',
+        arguments: { text: 'one two three four', readingWordsPerMinute: 60, speakingWordsPerMinute: 30 }
+      });
+
+      expect(result.structuredContent.reading).toEqual({ seconds: 4, text: '4 sec' });
+      expect(result.structuredContent.speaking).toEqual({ seconds: 8, text: '8 sec' });
+    });
+
+    it('should count characters for Japanese', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'estimate_time',
+        arguments: { text: '今日は良い天気ですね。', locale: 'ja-JP', readingCharactersPerMinute: 60 }
+      });
+
+      expect(result.structuredContent).toMatchObject({ unit: 'characters', length: 10, reading: { seconds: 10 } });
+    });
+
+    it('should add time for images and code blocks left out of Markdown', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'estimate_time',
+        arguments: {
+          text: 'Intro.\n\n![Chart](chart.png)\n\n```\nnpm install\n```',
+          format: 'markdown',
+          readingWordsPerMinute: 60,
+        }
+      });
+
+      // 1 second for the word, 12 for the image and 20 for the code block
+      expect(result.structuredContent.reading).toEqual({ seconds: 33, text: '33 sec' });
+      expect(result.structuredContent.speaking.seconds).toBe(1);
+      expect(result.structuredContent.excluded).toMatchObject({ images: 1, codeBlocks: 1 });
+    });
+  });
+
+  describe('Check Limits Tool', () => {
+    it('should report passed and failed limits with the offset to truncate at', async () => {
+      const text = 'Solar power is cheap. Wind power is cheaper still.';
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'check_limits',
+        arguments: {
+          text,
+          limits: [
+            { metric: 'wordCount', max: 5 },
+            { metric: 'characterCount', max: 280 },
+            { metric: 'sentenceCount', min: 3 },
+          ]
+        }
+      });
+
+      expect(result.structuredContent.passed).toBe(false);
+      const [words, characters, sentences] = result.structuredContent.checks;
+      expect(words).toMatchObject({ actual: 9, passed: false, exceededBy: 4 });
+      expect(text.slice(0, words.exceededAt)).toBe('Solar power is cheap. Wind ');
+      expect(characters).toEqual({ metric: 'characterCount', max: 280, actual: 50, passed: true });
+      expect(sentences).toMatchObject({ actual: 2, passed: false, shortBy: 1 });
+    });
+
+    it('should reject limits without a min or max', async () => {
+      await expect(mcpCall(child, 'tools/call', {
+        name: 'check_limits',
+        arguments: { text: 'Hello', limits: [{ metric: 'wordCount' }] }
+      })).rejects.toThrow('Each limit needs a min, a max or both');
+    });
+  });
+
+  describe('Truncate Text Tool', () => {
+    it('should truncate to characters at a word boundary with an ellipsis', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'truncate_text',
+        arguments: { text: 'Solar power is cheap. Wind power is cheaper still.', unit: 'characters', limit: 30, ellipsis: '…' }
+      });
+
+      expect(result.structuredContent).toEqual({
+        text: 'Solar power is cheap. Wind…',
+        truncated: true,
+        originalCount: 50,
+        count: 27,
+        cutAt: 26,
+      });
+    });
+
+    it('should keep whole sentences', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'truncate_text',
+        arguments: { text: 'Dr. Lee spoke. Everyone listened closely.', unit: 'words', limit: 5, wholeSentences: true, sentenceMode: 'smart' }
+      });
+
+      expect(result.structuredContent.text).toBe('Dr. Lee spoke.');
+    });
+  });
+
+  describe('Segment Text Tool', () => {
+    it('should return sentences with their positions', async () => {
+      const text = 'Hi 👋🏽. How are you? Fine.';
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'segment_text',
+        arguments: { text, unit: 'sentences' }
+      });
+
+      expect(result.structuredContent.total).toBe(3);
+      expect(result.structuredContent.segments[1]).toEqual({
+        index: 1,
+        text: 'How are you?',
+        start: 9,
+        end: 21,
+        graphemeStart: 6,
+        graphemeEnd: 18,
+      });
+      expect(text.slice(9, 21)).toBe('How are you?');
+    });
+
+    it('should paginate with offset and limit', async () => {
+      const text = Array.from({ length: 25 }, (_, index) => `Paragraph ${index + 1}.`).join('\n\n');
+      const first = await mcpCall(child, 'tools/call', {
+        name: 'segment_text',
+        arguments: { text, unit: 'paragraphs', limit: 10 }
+      });
+      expect(first.structuredContent).toMatchObject({ total: 25, offset: 0, nextOffset: 10 });
+
+      const last = await mcpCall(child, 'tools/call', {
+        name: 'segment_text',
+        arguments: { text, unit: 'paragraphs', offset: 20, limit: 10 }
+      });
+      expect(last.structuredContent.segments.map((segment: any) => segment.text)[4]).toBe('Paragraph 25.');
+      expect(last.structuredContent).not.toHaveProperty('nextOffset');
+    });
+  });
+
+  describe('Analyze Breakdown Tool', () => {
+    it('should analyze each paragraph', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'analyze_breakdown',
+        arguments: { text: 'Short one.\n\nThis paragraph is clearly the longest of them all.' }
+      });
+
+      const breakdown = result.structuredContent;
+      expect(breakdown.totals).toMatchObject({ wordCount: 11, paragraphCount: 2 });
+      expect(breakdown.paragraphs[0]).toMatchObject({ index: 0, start: 0, end: 10, excerpt: 'Short one.', wordCount: 2 });
+      expect(breakdown.longestParagraph).toEqual({ index: 1, wordCount: 9 });
+      expect(breakdown.averageSentenceWords).toBe(5.5);
+      expect(breakdown).not.toHaveProperty('sections');
+    });
+
+    it('should analyze each Markdown section', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'analyze_breakdown',
+        arguments: {
+          text: '# Intro\n\nBrief.\n\n## Method\n\nA much longer section with many words in it.\n\n```\ncode\n```',
+          format: 'markdown',
+        }
+      });
+
+      const { sections, totals } = result.structuredContent;
+      expect(totals.wordCount).toBe(12);
+      expect(sections.map((section: any) => [section.heading, section.level, section.wordCount, section.wordShare])).toEqual([
+        ['Intro', 1, 2, 16.67],
+        ['Method', 2, 10, 83.33],
+      ]);
+      expect(result.structuredContent.excluded.codeBlocks).toBe(1);
+    });
+  });
+
+  describe('Compare Texts Tool', () => {
+    it('should report metric deltas and word changes', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'compare_texts',
+        arguments: {
+          original: 'The quick brown fox jumps.',
+          revised: 'The slow brown fox jumps high. It lands.',
+          includeDiff: true,
+        }
+      });
+
+      const comparison = result.structuredContent;
+      expect(comparison.metrics.wordCount).toEqual({ original: 5, revised: 8, delta: 3 });
+      expect(comparison.metrics.sentenceCount).toEqual({ original: 1, revised: 2, delta: 1 });
+      expect(comparison.words).toEqual({ added: 4, removed: 1, unchanged: 4, changePercentage: 38.46 });
+      expect(comparison.diff).toBe('The [-quick-]{+slow+} brown fox jumps {+high. It lands+}.');
+    });
+
+    it('should leave out the diff unless requested', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'compare_texts',
+        arguments: { original: 'Same words.', revised: 'Same words.' }
+      });
+
+      expect(result.structuredContent.words.changePercentage).toBe(0);
+      expect(result.structuredContent).not.toHaveProperty('diff');
+    });
+  });
+
+  describe('Chunked Analysis Tools', () => {
+    it('should analyze a text sent in chunks', async () => {
+      const begin = await mcpCall(child, 'tools/call', { name: 'begin_analysis', arguments: {} });
+      const { sessionId } = begin.structuredContent;
+
+      const first = await mcpCall(child, 'tools/call', {
+        name: 'append_text',
+        arguments: { sessionId, text: 'The first sentence. The sec' }
+      });
+      expect(first.structuredContent).toMatchObject({ chunks: 1, length: 27, totals: { wordCount: 5, sentenceCount: 2 } });
+
+      await mcpCall(child, 'tools/call', {
+        name: 'append_text',
+        arguments: { sessionId, text: 'ond one.\n\nA new paragraph.' }
+      });
+      const finish = await mcpCall(child, 'tools/call', { name: 'finish_analysis', arguments: { sessionId } });
+      const whole = await mcpCall(child, 'tools/call', {
+        name: 'analyze_text',
+        arguments: { text: 'The first sentence. The second one.\n\nA new paragraph.' }
+      });
+
+      expect(finish.structuredContent.chunks).toBe(2);
+      expect(finish.structuredContent.totals).toEqual(whole.structuredContent);
+    });
+
+    it('should reject finished and unknown sessions', async () => {
+      const begin = await mcpCall(child, 'tools/call', { name: 'begin_analysis', arguments: { locale: 'ja-JP' } });
+      const { sessionId } = begin.structuredContent;
+      await mcpCall(child, 'tools/call', { name: 'finish_analysis', arguments: { sessionId } });
+
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'append_text',
+        arguments: { sessionId, text: 'More text.' }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Unknown or expired analysis session');
+    });
+  });
+
+  describe('Analyze Batch Tool', () => {
+    it('should analyze each item and aggregate the metrics', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'analyze_batch',
+        arguments: {
+          items: [
+            { id: 'a', text: 'Short headline' },
+            { id: 'b', text: 'A longer product description. It has two sentences.' },
+          ],
+        }
+      });
+
+      const batch = result.structuredContent;
+      expect(batch.items.map((item: any) => [item.id, item.result.wordCount])).toEqual([['a', 2], ['b', 8]]);
+      expect(batch).toMatchObject({ analyzed: 2, failed: 0 });
+      expect(batch.statistics.wordCount).toEqual({ sum: 10, min: 2, max: 8, mean: 5 });
+      expect(batch.statistics.sentenceCount).toEqual({ sum: 3, min: 1, max: 2, mean: 1.5 });
+    });
+
+    it('should report failing items without failing the call', async () => {
+      const result = await mcpCall(child, 'tools/call', {
+        name: 'analyze_batch',
+        arguments: {
+          items: [
+            { id: 'match', text: '<article>Kept words</article>' },
+            { id: 'missing', text: '<p>No article here</p>' },
+          ],
+          format: 'html',
+          html: { selector: 'article' },
+        }
+      });
+
+      const [match, missing] = result.structuredContent.items;
+      expect(result.isError).toBeFalsy();
+      expect(match.result.wordCount).toBe(2);
+      expect(missing.result).toBeUndefined();
+      expect(missing.error).toContain('did not match any element');
+      expect(result.structuredContent).toMatchObject({ analyzed: 1, failed: 1 });
+      expect(result.structuredContent.statistics.wordCount.sum).toBe(2);
+    });
+
+    it('should reject empty batches', async () => {
+      try {
+        await mcpCall(child, 'tools/call', {
+          name: 'analyze_batch',
+          arguments: { items: [] }
+        });
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect(error instanceof Error ? error.message : String(error)).toContain('MCP Error');
+      }
+    });
+
+    describe('with a configured maximum batch size', () => {
+      let batchServer: ChildProcessWithoutNullStreams;
+
+      beforeAll(async () => {
+        batchServer = await startServer(binPath, ['--max-batch-size', '2']);
+        await mcpCall(batchServer, 'initialize', {
+          protocolVersion: '2024-11-05',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' }
+        });
+      });
+
+      afterAll(async () => {
+        await stopServer(batchServer);
+      });
+
+      it('should reject batches larger than the maximum', async () => {
+        const items = [{ id: '1', text: 'One' }, { id: '2', text: 'Two' }, { id: '3', text: 'Three' }];
+        try {
+          await mcpCall(batchServer, 'tools/call', { name: 'analyze_batch', arguments: { items } });
+          fail('Should have thrown an error');
+        } catch (error) {
+          expect(error instanceof Error ? error.message : String(error)).toContain('MCP Error');
+        }
+
+        const result = await mcpCall(batchServer, 'tools/call', { name: 'analyze_batch', arguments: { items: items.slice(0, 2) } });
+        expect(result.structuredContent.analyzed).toBe(2);
+      });
+    });
+  });
+
+  describe('Input Limits and Error Codes', () => {
+    let limitedServer: ChildProcessWithoutNullStreams;
+
+    beforeAll(async () => {
+      // A budget of 1 ms is spent long before any of the long inputs below is analyzed
+      limitedServer = await startServer(binPath, ['--max-input-length', '100000', '--timeout', '1']);
+      await mcpCall(limitedServer, 'initialize', {
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' }
+      });
+    });
+
+    afterAll(async () => {
+      await stopServer(limitedServer);
+    });
+
+    it('should reject input longer than the maximum', async () => {
+      const result = await mcpCall(limitedServer, 'tools/call', {
+        name: 'compare_texts',
+        arguments: { original: 'a'.repeat(60000), revised: 'b'.repeat(60000) }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toEqual({
+        code: 'INPUT_TOO_LARGE',
+        message: 'Input of 120000 characters exceeds the limit of 100000 characters',
+      });
+    });
+
+    it('should abandon calls that run past the time budget', async () => {
+      const result = await mcpCall(limitedServer, 'tools/call', {
+        name: 'count_words',
+        arguments: { text: 'word '.repeat(19000) }
+      });
+
+      expect(JSON.parse(result.content[0].text).error.code).toBe('TIMEOUT');
+
+      // The server keeps serving after a timeout
+      const next = await mcpCall(limitedServer, 'tools/call', { name: 'count_words', arguments: { text: 'Still here' } });
+      expect(next.content[0].text).toBe('2');
+    });
+
+    it('should abandon Markdown and HTML extraction that runs past the time budget', async () => {
+      const inputs = [
+        { text: '- *item* with [a link](https://example.com)\n'.repeat(2000), format: 'markdown' },
+        { text: '<li><em>item</em> with <a href="https://example.com">a link</a></li>'.repeat(1400), format: 'html' },
+      ];
+      for (const input of inputs) {
+        const result = await mcpCall(limitedServer, 'tools/call', { name: 'count_words', arguments: input });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.parse(result.content[0].text).error.code).toBe('TIMEOUT');
+      }
+    });
+
+    it('should report other failures as ANALYSIS_FAILED', async () => {
+      const result = await mcpCall(limitedServer, 'tools/call', {
+        name: 'append_text',
+        arguments: { sessionId: 'missing', text: 'More text.' }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('ANALYSIS_FAILED');
+    });
+
+    it('should fail a batch with an unsupported locale as a whole', async () => {
+      const result = await mcpCall(limitedServer, 'tools/call', {
+        name: 'analyze_batch',
+        arguments: { items: [{ id: 'a', text: 'Hello' }], locale: 'not a tag' }
+      });
+
+      expect(JSON.parse(result.content[0].text).error.code).toBe('INVALID_LOCALE');
+    });
+  });
+
+  describe('SDK Client', () => {
+    let client: Client;
+
+    beforeAll(async () => {
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(new StdioClientTransport({ command: 'node', args: [binPath], stderr: 'ignore' }));
+      // Listing the tools makes the client validate results against their output schemas
+      await client.listTools();
+    });
+
+    afterAll(async () => {
+      await client.close();
+    });
+
+    it('should return results matching the output schema', async () => {
+      const result = await client.callTool({ name: 'analyze_text', arguments: { text: 'One. Two.' } });
+      expect(result.structuredContent).toMatchObject({ wordCount: 2, sentenceCount: 2 });
+    });
+
+    it('should deliver error codes from tools with an output schema', async () => {
+      const calls = [
+        { name: 'analyze_text', arguments: { text: 'Hello', locale: 'not a tag' } },
+        { name: 'analyze_batch', arguments: { items: [{ id: 'a', text: 'Hello' }], locale: 'not a tag' } },
+      ];
+      for (const call of calls) {
+        const result = await client.callTool(call);
+        const content = result.content as Array<{ type: string; text: string }>;
+
+        expect(result.isError).toBe(true);
+        expect(result.structuredContent).toBeUndefined();
+        expect(JSON.parse(content[0].text).error.code).toBe('INVALID_LOCALE');
+      }
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle missing parameters gracefully', async () => {
       try {
@@ -264,4 +1107,94 @@ describe('MCP End-to-End Tests', () => {
       expect(results[2].content[0].text).toBe('11');
     });
   });
+
+  describe('File Tools', () => {
+    let fileServer: ChildProcessWithoutNullStreams;
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = mkdtempSync(path.join(os.tmpdir(), 'wordcount-e2e-'));
+      const root = path.join(tempDir, 'root');
+      mkdirSync(path.join(root, 'chapters'), { recursive: true });
+      writeFileSync(path.join(root, 'chapters', 'one.md'), '# One\n\nIt was a dark night.');
+      writeFileSync(path.join(root, 'chapters', 'two.txt'), Buffer.from('Caf\xe9 au lait.', 'latin1'));
+      writeFileSync(path.join(tempDir, 'outside.txt'), 'Not allowed.');
+      mkdirSync(path.join(root, 'large'));
+      writeFileSync(path.join(root, 'large', 'long.txt'), 'word '.repeat(400));
+      writeFileSync(path.join(root, 'large', 'huge.txt'), 'word '.repeat(2000));
+
+      fileServer = await startServer(binPath, ['--root', root, '--max-input-length', '1000']);
+      await mcpCall(fileServer, 'initialize', {
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' }
+      });
+    });
+
+    afterAll(async () => {
+      await stopServer(fileServer);
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should only register file tools when roots are configured', async () => {
+      const withRoots = await mcpCall(fileServer, 'tools/list', {});
+      const withoutRoots = await mcpCall(child, 'tools/list', {});
+
+      expect(withRoots.tools.map((tool: any) => tool.name)).toEqual(expect.arrayContaining(['analyze_file', 'analyze_directory']));
+      expect(withoutRoots.tools.map((tool: any) => tool.name)).not.toContain('analyze_file');
+    });
+
+    it('should analyze a file with format and encoding detection', async () => {
+      const result = await mcpCall(fileServer, 'tools/call', {
+        name: 'analyze_file',
+        arguments: { path: 'chapters/one.md' }
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        path: 'chapters/one.md',
+        encoding: 'utf-8',
+        format: 'markdown',
+        result: { wordCount: 6, paragraphCount: 2 },
+      });
+    });
+
+    it('should analyze a directory with per-file results and totals', async () => {
+      const result = await mcpCall(fileServer, 'tools/call', {
+        name: 'analyze_directory',
+        arguments: { path: 'chapters', pattern: '*.{md,txt}' }
+      });
+
+      const { files, totals, skipped, truncated } = result.structuredContent;
+      expect(files.map((file: any) => file.path)).toEqual(['chapters/one.md', 'chapters/two.txt']);
+      expect(files[1]).toMatchObject({ encoding: 'windows-1252', result: { wordCount: 3, letterCount: 10 } });
+      expect(totals.wordCount).toBe(9);
+      expect(skipped).toEqual([]);
+      expect(truncated).toBe(false);
+    });
+
+    it('should reject files longer than the maximum input length', async () => {
+      for (const file of ['large/long.txt', 'large/huge.txt']) {
+        const result = await mcpCall(fileServer, 'tools/call', { name: 'analyze_file', arguments: { path: file } });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.parse(result.content[0].text).error.code).toBe('INPUT_TOO_LARGE');
+      }
+
+      const directory = await mcpCall(fileServer, 'tools/call', { name: 'analyze_directory', arguments: { path: 'large' } });
+      expect(directory.structuredContent.skipped).toEqual([
+        { path: 'large/huge.txt', reason: 'File of 10000 bytes exceeds the limit of 1000 characters' },
+        { path: 'large/long.txt', reason: 'Input of 2000 characters exceeds the limit of 1000 characters' },
+      ]);
+    });
+
+    it('should reject paths outside the allowed roots', async () => {
+      const result = await mcpCall(fileServer, 'tools/call', {
+        name: 'analyze_file',
+        arguments: { path: '../outside.txt' }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('outside the allowed root directories');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { TimeoutError, withDeadline } from '../analyzer/deadline.js';
+import { FileSandbox, PathOutsideRootsError } from './FileSandbox.js';
+
+describe('FileSandbox', () => {
+  let tempDir: string;
+  let root: string;
+  let sandbox: FileSandbox;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'wordcount-sandbox-'));
+    root = path.join(tempDir, 'root');
+    mkdirSync(path.join(root, 'docs', 'guide'), { recursive: true });
+    mkdirSync(path.join(root, '.git'));
+    writeFileSync(path.join(root, 'README.md'), '# Readme');
+    writeFileSync(path.join(root, 'docs', 'intro.md'), 'Intro');
+    writeFileSync(path.join(root, 'docs', 'notes.txt'), 'Notes');
+    writeFileSync(path.join(root, 'docs', 'guide', 'setup.md'), 'Setup');
+    writeFileSync(path.join(root, '.git', 'config'), 'hidden');
+    writeFileSync(path.join(tempDir, 'secret.txt'), 'secret');
+    symlinkSync(path.join(tempDir, 'secret.txt'), path.join(root, 'escape.txt'));
+    sandbox = new FileSandbox([root]);
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('constructor', () => {
+    it('should require at least one existing directory', () => {
+      expect(() => new FileSandbox([])).toThrow('At least one allowed root');
+      expect(() => new FileSandbox([path.join(tempDir, 'missing')])).toThrow();
+      expect(() => new FileSandbox([path.join(tempDir, 'secret.txt')])).toThrow('is not a directory');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve relative and absolute paths inside the root', async () => {
+      const expected = path.join(sandbox.roots[0], 'docs', 'intro.md');
+      expect(await sandbox.resolve('docs/intro.md')).toBe(expected);
+      expect(await sandbox.resolve(path.join(root, 'docs', 'intro.md'))).toBe(expected);
+    });
+
+    it('should reject paths outside the root', async () => {
+      await expect(sandbox.resolve('../secret.txt')).rejects.toThrow(PathOutsideRootsError);
+      await expect(sandbox.resolve(path.join(tempDir, 'secret.txt'))).rejects.toThrow(PathOutsideRootsError);
+      await expect(sandbox.resolve('/etc/does-not-exist')).rejects.toThrow(PathOutsideRootsError);
+    });
+
+    it('should reject symbolic links leading outside the root', async () => {
+      await expect(sandbox.resolve('escape.txt')).rejects.toThrow(PathOutsideRootsError);
+    });
+
+    it('should report missing files inside the root', async () => {
+      await expect(sandbox.resolve('missing.md')).rejects.toThrow('No such file or directory');
+    });
+  });
+
+  describe('listFiles', () => {
+    it('should list all visible files inside the root', async () => {
+      const listing = await sandbox.listFiles('.');
+      expect(listing.files.map(file => sandbox.displayPath(file))).toEqual([
+        'docs/guide/setup.md',
+        'docs/intro.md',
+        'docs/notes.txt',
+        'README.md',
+      ]);
+      expect(listing.truncated).toBe(false);
+    });
+
+    it('should filter by glob pattern relative to the directory', async () => {
+      const listing = await sandbox.listFiles('docs', { pattern: '**/*.md' });
+      expect(listing.files.map(file => sandbox.displayPath(file))).toEqual(['docs/guide/setup.md', 'docs/intro.md']);
+    });
+
+    it('should stop at maxFiles', async () => {
+      const listing = await sandbox.listFiles('.', { maxFiles: 2 });
+      expect(listing.files).toHaveLength(2);
+      expect(listing.truncated).toBe(true);
+    });
+
+    it('should reject directories outside the root', async () => {
+      await expect(sandbox.listFiles('..')).rejects.toThrow(PathOutsideRootsError);
+    });
+
+    it('should stop walking once the time budget is spent', async () => {
+      await expect(withDeadline(1, async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return sandbox.listFiles('.');
+      })).rejects.toThrow(TimeoutError);
+    });
+  });
+});
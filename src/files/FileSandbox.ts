@@ -0,0 +1,177 @@
+import { promises as fs, realpathSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { checkDeadline } from '../analyzer/deadline.js';
+import { compileGlob } from './glob.js';
+
+/**
+ * Error thrown when a requested path resolves outside every allowed root directory.
+ */
+export class PathOutsideRootsError extends Error {
+  constructor(public readonly requestedPath: string) {
+    super(`Access denied: "${requestedPath}" is outside the allowed root directories`);
+    this.name = 'PathOutsideRootsError';
+  }
+}
+
+export interface ListFilesOptions {
+  /** Glob pattern matched against paths relative to the directory (defaults to "**\/*"). */
+  pattern?: string;
+  /** Maximum number of files to return. */
+  maxFiles?: number;
+}
+
+export interface FileListing {
+  /** Real paths of the matching files, in sorted order. */
+  files: string[];
+  /** Whether more files matched than maxFiles allowed. */
+  truncated: boolean;
+}
+
+/**
+ * Restricts file access to a set of allowed root directories. Paths are resolved through
+ * symbolic links before checking, so links cannot escape the roots.
+ */
+export class FileSandbox {
+  public readonly roots: string[];
+
+  /**
+   * Initializes the sandbox with its allowed root directories.
+   * @param roots Directories that files may be read from; relative paths resolve against the working directory.
+   * @throws Error if no roots are given or a root is not an existing directory.
+   */
+  constructor(roots: string[]) {
+    if (roots.length === 0) {
+      throw new Error('At least one allowed root directory is required');
+    }
+    this.roots = roots.map(root => {
+      const real = realpathSync(path.resolve(root));
+      if (!statSync(real).isDirectory()) {
+        throw new Error(`Allowed root "${root}" is not a directory`);
+      }
+      return real;
+    });
+  }
+
+  /**
+   * Resolves a requested path to its real path, rejecting paths outside the roots.
+   * Relative paths are resolved against the first root.
+   * @param requested The path requested by the client.
+   * @returns The real, absolute path.
+   * @throws PathOutsideRootsError if the path is outside every root.
+   */
+  public async resolve(requested: string): Promise<string> {
+    const absolute = path.resolve(this.roots[0], requested);
+    let real: string;
+    try {
+      real = await fs.realpath(absolute);
+    } catch {
+      // Report missing paths outside the roots as denied, so probing reveals nothing
+      if (!this.contains(absolute)) {
+        throw new PathOutsideRootsError(requested);
+      }
+      throw new Error(`No such file or directory: "${requested}"`);
+    }
+    if (!this.contains(real)) {
+      throw new PathOutsideRootsError(requested);
+    }
+    return real;
+  }
+
+  /**
+   * Lists the files in a directory tree that match a glob pattern. Hidden files and
+   * directories (starting with ".") are skipped, as are links leading outside the roots.
+   * @param directory The directory path requested by the client.
+   * @param options The glob pattern and file limit.
+   * @returns The matching files and whether the listing was truncated.
+   */
+  public async listFiles(directory: string, options: ListFilesOptions = {}): Promise<FileListing> {
+    const base = await this.resolve(directory);
+    const matcher = compileGlob(options.pattern ?? '**/*');
+    const maxFiles = options.maxFiles ?? Infinity;
+    const files: string[] = [];
+    const visited = new Set<string>();
+
+    const walk = async (dir: string): Promise<boolean> => {
+      if (visited.has(dir)) {
+        return true;
+      }
+      visited.add(dir);
+
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        checkDeadline();
+        if (entry.name.startsWith('.')) {
+          continue;
+        }
+
+        let entryPath = path.join(dir, entry.name);
+        let isDirectory = entry.isDirectory();
+        let isFile = entry.isFile();
+        if (entry.isSymbolicLink()) {
+          try {
+            entryPath = await fs.realpath(entryPath);
+            const stats = await fs.stat(entryPath);
+            isDirectory = stats.isDirectory();
+            isFile = stats.isFile();
+          } catch {
+            // Broken link
+            continue;
+          }
+          if (!this.contains(entryPath)) {
+            continue;
+          }
+        }
+
+        if (isDirectory) {
+          if (!(await walk(entryPath))) {
+            return false;
+          }
+        } else if (isFile) {
+          const relative = path.relative(base, path.join(dir, entry.name)).split(path.sep).join('/');
+          if (matcher.test(relative)) {
+            if (files.length >= maxFiles) {
+              return false;
+            }
+            files.push(entryPath);
+          }
+        }
+      }
+      return true;
+    };
+
+    const complete = await walk(base);
+    return { files, truncated: !complete };
+  }
+
+  /**
+   * Formats a real path for display, relative to the root that contains it.
+   * @param realPath A path inside one of the roots.
+   * @returns The path relative to its root, prefixed with the root when there are several roots.
+   */
+  public displayPath(realPath: string): string {
+    const root = this.roots.find(candidate => isInside(candidate, realPath)) ?? this.roots[0];
+    const relative = path.relative(root, realPath).split(path.sep).join('/') || '.';
+    return this.roots.length > 1 ? path.join(root, relative) : relative;
+  }
+
+  /**
+   * Checks whether an absolute path is inside one of the roots.
+   * @param absolute The absolute path to check.
+   * @returns True if the path is a root or below one.
+   */
+  private contains(absolute: string): boolean {
+    return this.roots.some(root => isInside(root, absolute));
+  }
+}
+
+/**
+ * Checks whether a path is equal to or below a directory.
+ * @param directory The directory.
+ * @param candidate The path to check.
+ * @returns True if the candidate is inside the directory.
+ */
+function isInside(directory: string, candidate: string): boolean {
+  const relative = path.relative(directory, candidate);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
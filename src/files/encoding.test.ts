@@ -0,0 +1,41 @@
+import { BinaryFileError, decodeFile, detectEncoding } from './encoding.js';
+
+describe('detectEncoding', () => {
+  it('should detect byte order marks', () => {
+    expect(detectEncoding(Buffer.from([0xEF, 0xBB, 0xBF, 0x68, 0x69]))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from([0xFF, 0xFE, 0x68, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from([0xFE, 0xFF, 0x00, 0x68]))).toBe('utf-16be');
+  });
+
+  it('should detect UTF-16 without a byte order mark', () => {
+    expect(detectEncoding(Buffer.from('hello world', 'utf16le'))).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from('hello world', 'utf16le').swap16())).toBe('utf-16be');
+  });
+
+  it('should detect UTF-8 and fall back to Windows-1252', () => {
+    expect(detectEncoding(Buffer.from('café', 'utf8'))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from([0x63, 0x61, 0x66, 0xE9]))).toBe('windows-1252');
+  });
+
+  it('should reject binary data', () => {
+    expect(() => detectEncoding(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00, 0x00, 0x00, 0x0D, 0x49, 0x48]))).toThrow(BinaryFileError);
+  });
+});
+
+describe('decodeFile', () => {
+  it('should strip the byte order mark', () => {
+    expect(decodeFile(Buffer.from([0xEF, 0xBB, 0xBF, 0x68, 0x69]))).toEqual({ text: 'hi', encoding: 'utf-8' });
+    expect(decodeFile(Buffer.from('\uFEFFhi', 'utf16le')).text).toBe('hi');
+  });
+
+  it('should decode Windows-1252 punctuation', () => {
+    expect(decodeFile(Buffer.from([0x93, 0x63, 0x61, 0x66, 0xE9, 0x94, 0x20, 0x80]))).toEqual({
+      text: '“café” €',
+      encoding: 'windows-1252',
+    });
+  });
+
+  it('should honor an explicit encoding', () => {
+    expect(decodeFile(Buffer.from('café', 'utf8'), 'windows-1252').text).toBe('cafÃ©');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Text encodings recognized when reading files.
+ */
+export type DetectedEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DecodedFile {
+  text: string;
+  encoding: DetectedEncoding;
+}
+
+// Number of leading bytes inspected for NUL bytes
+const SAMPLE_SIZE = 4096;
+
+// Windows-1252 characters for bytes 0x80-0x9F, which differ from ISO-8859-1 (undefined bytes map to themselves)
+const WINDOWS_1252_HIGH = [
+  0x20AC, 0x81, 0x201A, 0x0192, 0x201E, 0x2026, 0x2020, 0x2021, 0x02C6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8D, 0x017D, 0x8F,
+  0x90, 0x2018, 0x2019, 0x201C, 0x201D, 0x2022, 0x2013, 0x2014, 0x02DC, 0x2122, 0x0161, 0x203A, 0x0153, 0x9D, 0x017E, 0x0178,
+];
+
+/**
+ * Error thrown when a file looks like binary data rather than text.
+ */
+export class BinaryFileError extends Error {
+  constructor() {
+    super('File appears to be binary, not text');
+    this.name = 'BinaryFileError';
+  }
+}
+
+/**
+ * Detects the encoding of a file's contents from its byte order mark, the distribution of
+ * NUL bytes (UTF-16 without BOM) and UTF-8 validity, falling back to Windows-1252.
+ * @param bytes The raw file contents.
+ * @returns The detected encoding.
+ * @throws BinaryFileError if the contents contain NUL bytes that are not UTF-16.
+ */
+export function detectEncoding(bytes: Uint8Array): DetectedEncoding {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return 'utf-16be';
+  }
+
+  // ASCII text in UTF-16 has a NUL in every other byte
+  const sampleLength = Math.min(bytes.length, SAMPLE_SIZE);
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < sampleLength; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenNuls++;
+      else oddNuls++;
+    }
+  }
+  const pairs = Math.floor(sampleLength / 2);
+  if (pairs > 0 && oddNuls > pairs * 0.4 && evenNuls < pairs * 0.05) {
+    return 'utf-16le';
+  }
+  if (pairs > 0 && evenNuls > pairs * 0.4 && oddNuls < pairs * 0.05) {
+    return 'utf-16be';
+  }
+  if (evenNuls + oddNuls > 0) {
+    throw new BinaryFileError();
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Decodes a file's contents using its detected (or the given) encoding, stripping any BOM.
+ * @param bytes The raw file contents.
+ * @param encoding An encoding to use instead of detecting one.
+ * @returns The decoded text and the encoding used.
+ */
+export function decodeFile(bytes: Uint8Array, encoding?: DetectedEncoding): DecodedFile {
+  const resolved = encoding ?? detectEncoding(bytes);
+  if (resolved === 'windows-1252') {
+    // Node's TextDecoder treats windows-1252 as ISO-8859-1, so map the 0x80-0x9F range here
+    let text = '';
+    for (const byte of bytes) {
+      text += String.fromCharCode(byte >= 0x80 && byte <= 0x9F ? WINDOWS_1252_HIGH[byte - 0x80] : byte);
+    }
+    return { text, encoding: resolved };
+  }
+
+  // TextDecoder strips a matching BOM by default
+  const text = new TextDecoder(resolved).decode(bytes);
+  return { text, encoding: resolved };
+}
@@ -0,0 +1,53 @@
+import { compileGlob } from './glob.js';
+
+describe('compileGlob', () => {
+  const matches = (pattern: string, path: string) => compileGlob(pattern).test(path);
+
+  it('should match within a single path segment with * and ?', () => {
+    expect(matches('*.md', 'README.md')).toBe(true);
+    expect(matches('*.md', 'docs/README.md')).toBe(false);
+    expect(matches('ch?.txt', 'ch1.txt')).toBe(true);
+    expect(matches('ch?.txt', 'ch10.txt')).toBe(false);
+  });
+
+  it('should match any number of directories with **', () => {
+    expect(matches('**/*.md', 'README.md')).toBe(true);
+    expect(matches('**/*.md', 'docs/guide/intro.md')).toBe(true);
+    expect(matches('docs/**', 'docs/a/b.txt')).toBe(true);
+    expect(matches('docs/**/*.md', 'docs/intro.md')).toBe(true);
+    expect(matches('docs/**/*.md', 'src/intro.md')).toBe(false);
+  });
+
+  it('should support alternatives and character classes', () => {
+    expect(matches('*.{md,txt}', 'a.txt')).toBe(true);
+    expect(matches('*.{md,txt}', 'a.html')).toBe(false);
+    expect(matches('ch[0-9].txt', 'ch3.txt')).toBe(true);
+    expect(matches('ch[!0-9].txt', 'ch3.txt')).toBe(false);
+  });
+
+  it('should treat regex characters literally', () => {
+    expect(matches('a+b (1).txt', 'a+b (1).txt')).toBe(true);
+    expect(matches('a.txt', 'abtxt')).toBe(false);
+  });
+
+  it('should support nested alternatives and unclosed braces', () => {
+    expect(matches('{docs/{a,b},src}/*.md', 'docs/b/x.md')).toBe(true);
+    expect(matches('{docs/{a,b},src}/*.md', 'src/x.md')).toBe(true);
+    expect(matches('{docs/{a,b},src}/*.md', 'docs/c/x.md')).toBe(false);
+    expect(matches('{a,b', 'b')).toBe(true);
+  });
+
+  it('should match pathological patterns without backtracking', () => {
+    const cases: Array<[string, string]> = [
+      ['**/'.repeat(20) + 'x', 'a/'.repeat(25) + 'y'],
+      ['*a'.repeat(12) + 'b', 'a'.repeat(30)],
+      ['*a'.repeat(1000) + 'b', 'a'.repeat(1000)],
+      [`{${'a,'.repeat(200_000)}b}x`, 'ay'],
+    ];
+    for (const [pattern, path] of cases) {
+      const start = Date.now();
+      expect(matches(pattern, path)).toBe(false);
+      expect(Date.now() - start).toBeLessThan(500);
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import { checkDeadline } from '../analyzer/deadline.js';
+
+/**
+ * A compiled glob pattern.
+ */
+export interface GlobMatcher {
+  /**
+   * Checks whether a "/"-separated relative path matches the whole pattern.
+   * @param path The path to check.
+   * @returns True if the path matches.
+   */
+  test(path: string): boolean;
+}
+
+// One step of a compiled pattern: consume a character, branch, jump, or accept
+type Instruction =
+  | { op: 'char'; test: (char: string) => boolean }
+  | { op: 'split'; targets: number[] }
+  | { op: 'jump'; to: number }
+  | { op: 'match' };
+
+const anyChar = () => true;
+const segmentChar = (char: string) => char !== '/';
+
+/**
+ * Compiles a glob pattern to a matcher for "/"-separated relative paths.
+ * Supports "**" (any number of directories), "*" and "?" (within one path segment),
+ * "{a,b}" alternatives and "[...]" character classes.
+ *
+ * Paths are matched by following every position in the pattern at once instead of
+ * backtracking, so matching takes time proportional to the path length times the pattern
+ * length whatever wildcards the client sends.
+ * @param pattern The glob pattern, e.g. "**\/*.md" or "chapters/{intro,outro}.txt".
+ * @returns A matcher anchored at both ends of the path.
+ */
+export function compileGlob(pattern: string): GlobMatcher {
+  const program = compile(pattern);
+  return { test: path => run(program, path) };
+}
+
+/**
+ * Translates a glob pattern to instructions for run.
+ * @param pattern The glob pattern.
+ * @returns The instructions, ending with a match instruction.
+ */
+function compile(pattern: string): Instruction[] {
+  const program: Instruction[] = [];
+  // Per open brace: its split instruction and the jumps that leave each finished alternative
+  const braces: Array<{ split: number[]; exits: Array<{ op: 'jump'; to: number }> }> = [];
+
+  // "*" and "**": repeat a character test zero or more times
+  const emitRepeat = (test: (char: string) => boolean) => {
+    const start = program.length;
+    program.push({ op: 'split', targets: [start + 1, start + 3] });
+    program.push({ op: 'char', test });
+    program.push({ op: 'jump', to: start });
+  };
+  const closeBrace = () => {
+    const brace = braces.pop()!;
+    brace.exits.forEach(exit => (exit.to = program.length));
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          // "**/" matches zero or more directories; repeated "**/" match the same
+          while (pattern.startsWith('**/', i + 3)) {
+            i += 3;
+          }
+          const start = program.length;
+          program.push({ op: 'split', targets: [start + 1, start + 5] });
+          emitRepeat(anyChar);
+          program.push({ op: 'char', test: c => c === '/' });
+          i += 2;
+        } else {
+          // A trailing "**" matches everything below
+          emitRepeat(anyChar);
+          i += 1;
+        }
+      } else {
+        emitRepeat(segmentChar);
+      }
+    } else if (char === '?') {
+      program.push({ op: 'char', test: segmentChar });
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end < 0) {
+        program.push({ op: 'char', test: c => c === '[' });
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        const characterClass = new RegExp(`^[${body}]$`);
+        program.push({ op: 'char', test: c => characterClass.test(c) });
+        i = end;
+      }
+    } else if (char === '{') {
+      const split = [program.length + 1];
+      program.push({ op: 'split', targets: split });
+      braces.push({ split, exits: [] });
+    } else if (char === '}' && braces.length > 0) {
+      closeBrace();
+    } else if (char === ',' && braces.length > 0) {
+      const brace = braces[braces.length - 1];
+      const exit = { op: 'jump' as const, to: -1 };
+      program.push(exit);
+      brace.exits.push(exit);
+      brace.split.push(program.length);
+    } else {
+      program.push({ op: 'char', test: c => c === char });
+    }
+  }
+
+  // Unclosed braces end with the pattern
+  while (braces.length > 0) {
+    closeBrace();
+  }
+  program.push({ op: 'match' });
+  return program;
+}
+
+/**
+ * Matches a path against compiled instructions, one character at a time.
+ * @param program The compiled pattern.
+ * @param path The path to match.
+ * @returns True if the whole path matches.
+ */
+function run(program: Instruction[], path: string): boolean {
+  let states = follow(program, [0]);
+  for (let i = 0; i < path.length && states.size > 0; i++) {
+    const char = path[i];
+    const advanced: number[] = [];
+    for (const state of states) {
+      const instruction = program[state];
+      if (instruction.op === 'char' && instruction.test(char)) {
+        advanced.push(state + 1);
+      }
+    }
+    states = follow(program, advanced);
+  }
+  return [...states].some(state => program[state].op === 'match');
+}
+
+/**
+ * Collects the instructions reachable from some starting points without consuming a character.
+ * @param program The compiled pattern.
+ * @param starts The starting instructions.
+ * @returns Every reachable instruction, including the starting ones.
+ */
+function follow(program: Instruction[], starts: number[]): Set<number> {
+  const reached = new Set<number>();
+  const pending = [...starts];
+  while (pending.length > 0) {
+    const state = pending.pop()!;
+    if (reached.has(state)) {
+      continue;
+    }
+    reached.add(state);
+    // Patterns may be as long as any other input, so large ones are matched against the time budget
+    checkDeadline(reached.size);
+    const instruction = program[state];
+    if (instruction.op === 'split') {
+      // Not spread: a brace may hold more alternatives than a call takes arguments
+      instruction.targets.forEach(target => pending.push(target));
+    } else if (instruction.op === 'jump') {
+      pending.push(instruction.to);
+    }
+  }
+  return reached;
+}
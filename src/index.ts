@@ -1,41 +1,215 @@
 #!/usr/bin/env node
 
+import path from "node:path";
+import { parseArgs } from "node:util";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { TextAnalyzer } from "./analyzer/TextAnalyzer.js";
-import { registerWordCountTools } from "./tools/wordcount-tools.js";
+import { runAnalyzeCommand } from "./cli/analyze.js";
+import { registerWordCountTools, WordCountToolsOptions } from "./tools/wordcount-tools.js";
+import { HttpTransportOptions, StreamableHttpServer } from "./transports/http.js";
 
 /**
- * Main entry point for the wordcount-mcp server
- * Starts an MCP server with stdio transport for text analysis capabilities
+ * Transport selection and its options
  */
-async function main() {
+interface TransportOptions {
+  transport: "stdio" | "http";
+  http: HttpTransportOptions;
+}
+
+/**
+ * Command line flag values of the serve command
+ */
+type ServeFlags = ReturnType<typeof parseFlags>;
+
+const USAGE = `Usage: wordcount-mcp [serve] [options]
+       wordcount-mcp analyze [options] <file...>
+
+Commands:
+  serve      Start the MCP server (default)
+  analyze    Analyze files or standard input and print the results
+
+Run "wordcount-mcp analyze --help" for the analyze options.
+`;
+
+/**
+ * Resolves the tool options from the command line and environment
+ * Locale precedence: --locale flag, then WORDCOUNT_LOCALE, then the analyzer default (en-US)
+ * Allowed roots: every --root flag, or else the WORDCOUNT_ROOTS list (separated like PATH)
+ * Limits: --max-batch-size/WORDCOUNT_MAX_BATCH_SIZE (items, default 100),
+ * --max-input-length/WORDCOUNT_MAX_INPUT_LENGTH (characters, default 5,000,000) and
+ * --timeout/WORDCOUNT_TIMEOUT_MS (milliseconds, default 30,000)
+ * @param values The parsed command line flags
+ * @returns The options for registerWordCountTools
+ * @throws Error if a limit is not a positive integer
+ */
+function resolveToolOptions(values: ServeFlags): WordCountToolsOptions {
+  const locale = typeof values.locale === "string" ? values.locale : undefined;
+  const roots = Array.isArray(values.root)
+    ? values.root.filter((root): root is string => typeof root === "string")
+    : [];
+  const envRoots = (process.env.WORDCOUNT_ROOTS ?? "").split(path.delimiter).filter(Boolean);
+
+  return {
+    defaultLocale: locale ?? (process.env.WORDCOUNT_LOCALE || undefined),
+    allowedRoots: roots.length > 0 ? roots : envRoots,
+    maxBatchSize: resolveLimit(values, "max-batch-size", "WORDCOUNT_MAX_BATCH_SIZE"),
+    maxInputLength: resolveLimit(values, "max-input-length", "WORDCOUNT_MAX_INPUT_LENGTH"),
+    timeoutMs: resolveLimit(values, "timeout", "WORDCOUNT_TIMEOUT_MS"),
+  };
+}
+
+/**
+ * Resolves a limit from its flag or, if the flag is not given, its environment variable
+ * @param values The parsed command line flags
+ * @param flag The name of the flag
+ * @param variable The name of the environment variable
+ * @returns The limit, or undefined to use the default
+ * @throws Error if the limit is not a positive integer
+ */
+function resolveLimit(values: ServeFlags, flag: string, variable: string): number | undefined {
+  const value = typeof values[flag] === "string" ? values[flag] as string : process.env[variable];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const limit = Number(value);
+  if (!(Number.isInteger(limit) && limit >= 1)) {
+    throw new Error(`Invalid --${flag} "${value}": expected a positive integer`);
+  }
+  return limit;
+}
+
+/**
+ * Resolves the transport options from the command line and environment; flags take precedence
+ * Transport: --transport or WORDCOUNT_TRANSPORT, "stdio" (default) or "http"
+ * HTTP: --host/WORDCOUNT_HOST, --port/WORDCOUNT_PORT, --auth-token/WORDCOUNT_AUTH_TOKEN,
+ * every --cors-origin flag, or else the comma-separated WORDCOUNT_CORS_ORIGINS list, and the
+ * session limits --session-timeout/WORDCOUNT_SESSION_TIMEOUT_MS (milliseconds, default 30 minutes)
+ * and --max-sessions/WORDCOUNT_MAX_SESSIONS (default 1,000)
+ * @param values The parsed command line flags
+ * @returns The transport options
+ * @throws Error if the transport, port or a session limit is invalid
+ */
+function resolveTransportOptions(values: ServeFlags): TransportOptions {
+  const flag = (name: string) => (typeof values[name] === "string" ? values[name] as string : undefined);
+
+  const transport = flag("transport") ?? (process.env.WORDCOUNT_TRANSPORT || "stdio");
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unsupported transport "${transport}": expected "stdio" or "http"`);
+  }
+
+  const portValue = flag("port") ?? process.env.WORDCOUNT_PORT;
+  const port = portValue === undefined || portValue === "" ? undefined : Number(portValue);
+  if (port !== undefined && !(Number.isInteger(port) && port >= 0 && port <= 65535)) {
+    throw new Error(`Invalid port "${portValue}": expected an integer between 0 and 65535`);
+  }
+
+  const corsOrigins = Array.isArray(values["cors-origin"])
+    ? values["cors-origin"].filter((origin): origin is string => typeof origin === "string")
+    : [];
+  const envCorsOrigins = (process.env.WORDCOUNT_CORS_ORIGINS ?? "").split(",").map(origin => origin.trim()).filter(Boolean);
+
+  return {
+    transport,
+    http: {
+      host: flag("host") ?? (process.env.WORDCOUNT_HOST || undefined),
+      port,
+      authToken: flag("auth-token") ?? (process.env.WORDCOUNT_AUTH_TOKEN || undefined),
+      corsOrigins: corsOrigins.length > 0 ? corsOrigins : envCorsOrigins,
+      sessionTimeoutMs: resolveLimit(values, "session-timeout", "WORDCOUNT_SESSION_TIMEOUT_MS"),
+      maxSessions: resolveLimit(values, "max-sessions", "WORDCOUNT_MAX_SESSIONS"),
+    },
+  };
+}
+
+/**
+ * Parses the command line flags of the serve command
+ * @param args The command line arguments
+ * @returns The flag values by name
+ */
+function parseFlags(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      locale: { type: "string" },
+      root: { type: "string", multiple: true },
+      "max-batch-size": { type: "string" },
+      "max-input-length": { type: "string" },
+      timeout: { type: "string" },
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+      "auth-token": { type: "string" },
+      "cors-origin": { type: "string", multiple: true },
+      "session-timeout": { type: "string" },
+      "max-sessions": { type: "string" },
+    },
+    strict: false,
+  });
+  return values;
+}
+
+/**
+ * Creates an MCP server with all word count tools registered
+ * @param options The tool options
+ * @returns The server, not yet connected to a transport
+ */
+function createServer(options: WordCountToolsOptions): McpServer {
+  // Create MCP server with metadata
+  const server = new McpServer({
+    name: "wordcount-mcp",
+    version: "1.0.0",
+  });
+
+  // Register all word count tools
+  registerWordCountTools(server, options);
+  return server;
+}
+
+/**
+ * Starts an MCP server with the stdio or Streamable HTTP transport for text analysis capabilities
+ * @param args The command line arguments following the serve command, if given
+ */
+async function serve(args: string[]) {
   try {
     // Log startup to stderr (not stdout to avoid interfering with MCP stdio)
     console.error("Starting wordcount-mcp server...");
 
-    // Create MCP server with metadata
-    const server = new McpServer({
-      name: "wordcount-mcp",
-      version: "1.0.0",
-    });
+    const values = parseFlags(args);
+    const options = resolveToolOptions(values);
+    const { transport, http } = resolveTransportOptions(values);
+    let close: () => Promise<void>;
+
+    if (transport === "http") {
+      // The first session's server is built up front, so that invalid options fail at startup
+      let firstServer: McpServer | undefined = createServer(options);
 
-    // Register all word count tools
-    registerWordCountTools(server);
+      // Every HTTP session gets its own server
+      const httpServer = new StreamableHttpServer(() => {
+        const server = firstServer ?? createServer(options);
+        firstServer = undefined;
+        return server;
+      }, { ...http, maxInputLength: options.maxInputLength });
+      const url = await httpServer.listen();
+      close = () => httpServer.close();
+      console.error(`wordcount-mcp server started successfully on ${url} (default locale: ${options.defaultLocale ?? "en-US"})`);
+    } else {
+      const server = createServer(options);
 
-    // Create stdio transport for communication
-    const transport = new StdioServerTransport();
+      // Create stdio transport for communication
+      const stdioTransport = new StdioServerTransport();
 
-    // Connect the server to the transport
-    await server.connect(transport);
+      // Connect the server to the transport
+      await server.connect(stdioTransport);
+      close = () => server.close();
 
-    console.error("wordcount-mcp server started successfully");
+      console.error(`wordcount-mcp server started successfully (default locale: ${options.defaultLocale ?? "en-US"})`);
+    }
 
     // Set up graceful shutdown handlers
     const shutdown = async () => {
       try {
         console.error("Shutting down wordcount-mcp server...");
-        await server.close();
+        await close();
         process.exit(0);
       } catch (error) {
         console.error("Error during shutdown:", error);
@@ -65,7 +239,28 @@ async function main() {
   }
 }
 
-// Start the server
+/**
+ * Main entry point for wordcount-mcp
+ * Dispatches to the analyze command, or serves MCP when the command is "serve" or omitted
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === "analyze") {
+    process.exitCode = await runAnalyzeCommand(args);
+  } else if (command === "serve") {
+    await serve(args);
+  } else if (command === "help" || command === "--help" || command === "-h") {
+    process.stdout.write(USAGE);
+  } else if (command === undefined || command.startsWith("-")) {
+    // Without a command, every argument is a server flag
+    await serve(process.argv.slice(2));
+  } else {
+    process.stderr.write(`wordcount-mcp: unknown command "${command}"\n\n${USAGE}`);
+    process.exitCode = 2;
+  }
+}
+
 main().catch((error) => {
   console.error("Fatal error:", error);
   process.exit(1);
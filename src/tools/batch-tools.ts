@@ -0,0 +1,162 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { TextAnalysisResult } from "../analyzer/TextAnalyzer.js";
+import { TimeoutError } from "../analyzer/deadline.js";
+import { ExclusionReport, ExclusionReportSchema, FormatInputSchema, TextAnalysisResultSchema, TextToolArgs, excludedMedia, prepareInput } from "./shared.js";
+
+// Default for the number of items analyzed in one analyze_batch call
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+// Metrics aggregated over the items of a batch, in the order of TextAnalysisResult
+const METRICS: Array<keyof TextAnalysisResult> = [
+  "wordCount",
+  "letterCount",
+  "characterCount",
+  "sentenceCount",
+  "paragraphCount",
+  "readingTimeSeconds",
+  "speakingTimeSeconds",
+];
+
+// Schema for the aggregate of one metric over the analyzed items
+const MetricStatisticsSchema = z.object({
+  sum: z.number().int(),
+  min: z.number().int(),
+  max: z.number().int(),
+  mean: z.number().describe("Rounded to 2 decimals"),
+});
+
+// Schema for analyze_batch structured output
+const AnalyzeBatchOutputSchema = {
+  items: z
+    .array(z.object({
+      id: z.string(),
+      result: TextAnalysisResultSchema.optional().describe("Analysis of the item, unless it failed"),
+      excluded: ExclusionReportSchema,
+      error: z.string().optional().describe("Why the item could not be analyzed"),
+    }))
+    .describe("Analysis of each item, in input order"),
+  analyzed: z.number().int().describe("Number of items analyzed"),
+  failed: z.number().int().describe("Number of items that could not be analyzed"),
+  statistics: z
+    .object(Object.fromEntries(METRICS.map(metric => [metric, MetricStatisticsSchema])) as Record<keyof TextAnalysisResult, typeof MetricStatisticsSchema>)
+    .nullable()
+    .describe("Sum, minimum, maximum and mean of each metric over the analyzed items (null when none was analyzed)"),
+};
+
+type AnalyzeBatchArgs = Omit<TextToolArgs, "text"> & { items: Array<{ id: string; text: string }> };
+
+type MetricStatistics = z.infer<typeof MetricStatisticsSchema>;
+
+interface BatchItemAnalysis {
+  id: string;
+  result?: TextAnalysisResult;
+  excluded?: ExclusionReport;
+  error?: string;
+}
+
+/**
+ * Aggregates each metric over the analyzed items of a batch
+ * @param results The analyses of the items that did not fail
+ * @returns The sum, minimum, maximum and mean of each metric, or null without results
+ */
+function aggregate(results: TextAnalysisResult[]): Record<keyof TextAnalysisResult, MetricStatistics> | null {
+  if (results.length === 0) {
+    return null;
+  }
+  return Object.fromEntries(METRICS.map(metric => {
+    const values = results.map(result => result[metric]);
+    const sum = values.reduce((total, value) => total + value, 0);
+    // Not spread: batches may hold more items than a call takes arguments
+    return [metric, {
+      sum,
+      min: values.reduce((min, value) => Math.min(min, value)),
+      max: values.reduce((max, value) => Math.max(max, value)),
+      mean: Math.round(sum / values.length * 100) / 100,
+    }];
+  })) as Record<keyof TextAnalysisResult, MetricStatistics>;
+}
+
+/**
+ * Creates the handler for the analyze_batch tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createAnalyzeBatchHandler(analyzers: AnalyzerCache) {
+  return async (args: AnalyzeBatchArgs) => {
+    try {
+      const { items: inputs, ...formatArgs } = args;
+      // An unsupported locale fails the whole call rather than every item
+      analyzers.get(formatArgs.locale);
+      const items: BatchItemAnalysis[] = [];
+      const results: TextAnalysisResult[] = [];
+
+      for (const { id, text: input } of inputs) {
+        // A failing item is reported in place, so the other items are still analyzed
+        try {
+          const { analyzer, text, excluded } = prepareInput(analyzers, { ...formatArgs, text: input });
+          const result = analyzer.analyzeText(text, excludedMedia(excluded));
+          items.push({ id, result, ...(excluded ? { excluded } : {}) });
+          results.push(result);
+        } catch (error) {
+          // Once the time budget is spent, every remaining item would fail the same way
+          if (error instanceof TimeoutError) {
+            throw error;
+          }
+          items.push({ id, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      const result = {
+        items,
+        analyzed: results.length,
+        failed: items.length - results.length,
+        statistics: aggregate(results),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in analyzeBatch:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the batch analysis tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @param maxBatchSize The largest number of items accepted in one call
+ */
+export function registerBatchTools(server: McpServer, analyzers: AnalyzerCache, maxBatchSize: number = DEFAULT_MAX_BATCH_SIZE) {
+  // Schema for analyze_batch input validation
+  const AnalyzeBatchInputSchema = {
+    items: z
+      .array(z.object({
+        id: z.string().describe("Identifier returned with the item's analysis"),
+        text: z.string().describe("The text to analyze"),
+      }))
+      .min(1)
+      .max(maxBatchSize)
+      .describe(`Texts to analyze, at most ${maxBatchSize}`),
+    ...FormatInputSchema,
+  };
+
+  // Register analyze_batch tool
+  server.registerTool(
+    "analyze_batch",
+    {
+      description: "Analyze many short texts, such as product descriptions or headlines, in one call, with the analyze_text metrics of each and their sum, minimum, maximum and mean; items that fail are reported without failing the others",
+      inputSchema: AnalyzeBatchInputSchema,
+      outputSchema: AnalyzeBatchOutputSchema,
+    },
+    createAnalyzeBatchHandler(analyzers)
+  );
+}
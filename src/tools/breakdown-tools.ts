@@ -0,0 +1,108 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { truncateText } from "../analyzer/truncate.js";
+import { ExclusionReportSchema, TextAnalysisResultSchema, TextInputSchema, TextToolArgs, excludedMedia, prepareInput } from "./shared.js";
+
+// Length of the paragraph excerpts that identify each paragraph, in characters
+const EXCERPT_LENGTH = 60;
+
+// Schema for the paragraph with the most or fewest words
+const ParagraphLengthSchema = z
+  .object({
+    index: z.number().int(),
+    wordCount: z.number().int(),
+  })
+  .nullable();
+
+// Schema for analyze_breakdown structured output
+const AnalyzeBreakdownOutputSchema = {
+  totals: TextAnalysisResultSchema.describe("Analysis of the whole text"),
+  paragraphs: z
+    .array(TextAnalysisResultSchema.extend({
+      index: z.number().int().describe("Position of the paragraph, starting at 0"),
+      start: z.number().int().describe("UTF-16 offset where the paragraph starts in the analyzed prose"),
+      end: z.number().int().describe("UTF-16 offset just after the paragraph"),
+      excerpt: z.string().describe("Beginning of the paragraph"),
+    }))
+    .describe("Analysis of each paragraph"),
+  longestParagraph: ParagraphLengthSchema.describe("Paragraph with the most words (null without paragraphs)"),
+  shortestParagraph: ParagraphLengthSchema.describe("Paragraph with the fewest words (null without paragraphs)"),
+  averageParagraphWords: z.number().describe("Mean number of words per paragraph"),
+  averageSentenceWords: z.number().describe("Mean number of words per sentence"),
+  sections: z
+    .array(TextAnalysisResultSchema.extend({
+      heading: z.string().nullable().describe("Heading text, or null for content before the first heading"),
+      level: z.number().int().describe("Heading level from 1 to 6, or 0 before the first heading"),
+      wordShare: z.number().describe("Share of the document's words, in percent"),
+    }))
+    .optional()
+    .describe("Analysis of each heading-delimited section (Markdown input only)"),
+  excluded: ExclusionReportSchema,
+};
+
+/**
+ * Creates the handler for the analyze_breakdown tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createAnalyzeBreakdownHandler(analyzers: AnalyzerCache) {
+  return async (args: TextToolArgs) => {
+    try {
+      const { analyzer, text, excluded, sections } = prepareInput(analyzers, args);
+      const { breakdown, ...totals } = analyzer.analyzeText(text, { ...excludedMedia(excluded), breakdown: true });
+
+      const share = (words: number) => (totals.wordCount > 0 ? Math.round(words / totals.wordCount * 10000) / 100 : 0);
+      const result = {
+        totals,
+        ...breakdown,
+        paragraphs: breakdown.paragraphs.map(paragraph => ({
+          ...paragraph,
+          excerpt: truncateText(analyzer, text.slice(paragraph.start, paragraph.end), {
+            unit: "characters",
+            limit: EXCERPT_LENGTH,
+            ellipsis: "…",
+          }).text,
+        })),
+        ...(sections
+          ? {
+            sections: sections.map(section => {
+              const analysis = analyzer.analyzeText(section.text);
+              return { heading: section.heading, level: section.level, ...analysis, wordShare: share(analysis.wordCount) };
+            }),
+          }
+          : {}),
+        ...(excluded ? { excluded } : {}),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in analyzeBreakdown:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the breakdown tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerBreakdownTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register analyze_breakdown tool
+  server.registerTool(
+    "analyze_breakdown",
+    {
+      description: "Break the analysis down per paragraph and, for Markdown, per heading-delimited section, with the longest and shortest paragraph and average paragraph and sentence length, to find which part of a document is too long",
+      inputSchema: TextInputSchema,
+      outputSchema: AnalyzeBreakdownOutputSchema,
+    },
+    createAnalyzeBreakdownHandler(analyzers)
+  );
+}
@@ -0,0 +1,119 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { diffWords, formatWordDiff } from "../analyzer/diff.js";
+import { TextAnalysisResult } from "../analyzer/TextAnalyzer.js";
+import { FormatInputSchema, TextToolArgs, excludedMedia, prepareInput } from "./shared.js";
+
+// Schema for compare_texts input validation
+const CompareTextsInputSchema = {
+  original: z.string().describe("The earlier version of the text"),
+  revised: z.string().describe("The later version of the text"),
+  ...FormatInputSchema,
+  includeDiff: z
+    .boolean()
+    .optional()
+    .describe("Include the revised text with removed words marked [-like this-] and added words {+like this+} (default false)"),
+};
+
+// Schema for a metric of both versions
+const MetricDeltaSchema = z.object({
+  original: z.number().int(),
+  revised: z.number().int(),
+  delta: z.number().int().describe("Revised minus original"),
+});
+
+// Schema for compare_texts structured output
+const CompareTextsOutputSchema = {
+  metrics: z
+    .object({
+      wordCount: MetricDeltaSchema,
+      letterCount: MetricDeltaSchema,
+      characterCount: MetricDeltaSchema,
+      sentenceCount: MetricDeltaSchema,
+      paragraphCount: MetricDeltaSchema,
+      readingTimeSeconds: MetricDeltaSchema,
+      speakingTimeSeconds: MetricDeltaSchema,
+    })
+    .describe("Each analyze_text metric for both versions and the change"),
+  words: z
+    .object({
+      added: z.number().int().describe("Words only in the revised text"),
+      removed: z.number().int().describe("Words only in the original text"),
+      unchanged: z.number().int().describe("Words kept in the same order"),
+      changePercentage: z.number().describe("Added and removed words as a share of the words of both versions, in percent"),
+    })
+    .describe("Word-level diff statistics"),
+  diff: z.string().optional().describe("Word diff of the two versions, when requested"),
+};
+
+/**
+ * Arguments of the compare_texts tool
+ */
+type CompareTextsArgs = Omit<TextToolArgs, "text"> & {
+  original: string;
+  revised: string;
+  includeDiff?: boolean;
+};
+
+/**
+ * Creates the handler for the compare_texts tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createCompareTextsHandler(analyzers: AnalyzerCache) {
+  return async (args: CompareTextsArgs) => {
+    try {
+      const { original: originalInput, revised: revisedInput, includeDiff, ...formatArgs } = args;
+      const original = prepareInput(analyzers, { ...formatArgs, text: originalInput });
+      const revised = prepareInput(analyzers, { ...formatArgs, text: revisedInput });
+      const analyzer = original.analyzer;
+
+      const originalAnalysis = analyzer.analyzeText(original.text, excludedMedia(original.excluded));
+      const revisedAnalysis = analyzer.analyzeText(revised.text, excludedMedia(revised.excluded));
+      const metrics = Object.fromEntries(
+        (Object.keys(originalAnalysis) as Array<keyof TextAnalysisResult>).map(metric => [metric, {
+          original: originalAnalysis[metric],
+          revised: revisedAnalysis[metric],
+          delta: revisedAnalysis[metric] - originalAnalysis[metric],
+        }])
+      ) as Record<keyof TextAnalysisResult, z.infer<typeof MetricDeltaSchema>>;
+
+      const { chunks, ...words } = diffWords(analyzer, original.text, revised.text);
+      const result = {
+        metrics,
+        words,
+        ...(includeDiff ? { diff: formatWordDiff(chunks) } : {}),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in compareTexts:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the text comparison tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerCompareTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register compare_texts tool
+  server.registerTool(
+    "compare_texts",
+    {
+      description: "Compare two versions of a text: the change in every analyze_text metric, the number of words added, removed and unchanged, the percentage changed and optionally a word diff",
+      inputSchema: CompareTextsInputSchema,
+      outputSchema: CompareTextsOutputSchema,
+    },
+    createCompareTextsHandler(analyzers)
+  );
+}
@@ -0,0 +1,256 @@
+import { promises as fs } from "node:fs";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { TextAnalysisResult } from "../analyzer/TextAnalyzer.js";
+import { TimeoutError } from "../analyzer/deadline.js";
+import { TextFormat, formatFromFileName } from "../analyzer/formats.js";
+import { DetectedEncoding, decodeFile } from "../files/encoding.js";
+import { FileSandbox } from "../files/FileSandbox.js";
+import { DEFAULT_MAX_INPUT_LENGTH, InputTooLargeError } from "./guard.js";
+import { ExclusionReport, ExclusionReportSchema, FormatInputSchema, TextAnalysisResultSchema, TextToolArgs, excludedMedia, prepareInput } from "./shared.js";
+
+// Most bytes a UTF-16 code unit takes in any supported encoding (UTF-8 of a BMP character)
+const MAX_BYTES_PER_CHARACTER = 3;
+
+// Default and upper limit for the number of files analyzed in one directory call
+const DEFAULT_MAX_FILES = 500;
+const MAX_FILES_LIMIT = 10_000;
+
+// Schema for the file reading arguments shared by the file tools
+const FileInputSchema = {
+  ...FormatInputSchema,
+  format: FormatInputSchema.format.describe(
+    "Input format; defaults to detection from the file extension (.md, .html, .xml, otherwise \"text\")"
+  ),
+  encoding: z
+    .enum(["utf-8", "utf-16le", "utf-16be", "windows-1252"])
+    .optional()
+    .describe("Text encoding; detected from the byte order mark and contents when omitted"),
+};
+
+// Schema for analyze_file input validation
+const AnalyzeFileInputSchema = {
+  path: z.string().min(1).describe("Path of the file, absolute or relative to the first allowed root"),
+  ...FileInputSchema,
+};
+
+// Schema for analyze_directory input validation
+const AnalyzeDirectoryInputSchema = {
+  path: z.string().min(1).describe("Path of the directory, absolute or relative to the first allowed root"),
+  pattern: z
+    .string()
+    .optional()
+    .describe("Glob pattern for files relative to the directory, e.g. \"**/*.md\" (defaults to all files)"),
+  maxFiles: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_FILES_LIMIT)
+    .optional()
+    .describe(`Maximum number of files to analyze (defaults to ${DEFAULT_MAX_FILES})`),
+  ...FileInputSchema,
+};
+
+// Schema for the analysis of a single file
+const FileAnalysisSchema = z.object({
+  path: z.string().describe("Path relative to its allowed root"),
+  encoding: z.string().describe("Encoding used to decode the file"),
+  format: z.string().describe("Input format used for analysis"),
+  bytes: z.number().int().describe("File size in bytes"),
+  result: TextAnalysisResultSchema,
+  excluded: ExclusionReportSchema,
+});
+
+// Schema for analyze_directory structured output
+const AnalyzeDirectoryOutputSchema = {
+  files: z.array(FileAnalysisSchema).describe("Analysis of each file"),
+  totals: TextAnalysisResultSchema.describe("Sum of each metric over all analyzed files"),
+  skipped: z
+    .array(z.object({ path: z.string(), reason: z.string() }))
+    .describe("Matching files that could not be analyzed"),
+  truncated: z.boolean().describe("Whether more files matched than maxFiles allowed"),
+};
+
+type FileToolArgs = Omit<TextToolArgs, "text"> & { encoding?: DetectedEncoding };
+
+interface FileAnalysis {
+  path: string;
+  encoding: DetectedEncoding;
+  format: TextFormat;
+  bytes: number;
+  result: TextAnalysisResult;
+  excluded?: ExclusionReport;
+}
+
+/**
+ * Reads, decodes and analyzes a single file inside the sandbox
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @param sandbox The sandbox the file was resolved in
+ * @param realPath The real path of the file
+ * @param args The file tool arguments
+ * @param maxInputLength The largest decoded length accepted, in UTF-16 code units
+ * @returns The file's analysis
+ * @throws InputTooLargeError if the file is longer than the maximum input length
+ */
+async function analyzeFile(
+  analyzers: AnalyzerCache,
+  sandbox: FileSandbox,
+  realPath: string,
+  args: FileToolArgs,
+  maxInputLength: number
+): Promise<FileAnalysis> {
+  const stats = await fs.stat(realPath);
+  if (!stats.isFile()) {
+    throw new Error("Not a regular file");
+  }
+  // Files too large in any encoding are rejected before they are read
+  const minimumLength = Math.ceil(stats.size / MAX_BYTES_PER_CHARACTER) - 1;
+  if (minimumLength > maxInputLength) {
+    throw new InputTooLargeError(
+      minimumLength,
+      maxInputLength,
+      `File of ${stats.size} bytes exceeds the limit of ${maxInputLength} characters`
+    );
+  }
+
+  const { text, encoding } = decodeFile(await fs.readFile(realPath), args.encoding);
+  if (text.length > maxInputLength) {
+    throw new InputTooLargeError(text.length, maxInputLength);
+  }
+  const format = args.format ?? formatFromFileName(realPath);
+  const { analyzer, text: prose, excluded } = prepareInput(analyzers, { ...args, text, format });
+
+  return {
+    path: sandbox.displayPath(realPath),
+    encoding,
+    format,
+    bytes: stats.size,
+    result: analyzer.analyzeText(prose, excludedMedia(excluded)),
+    ...(excluded ? { excluded } : {}),
+  };
+}
+
+/**
+ * Creates the handler for the analyze_file tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @param sandbox The sandbox restricting file access
+ * @param maxInputLength The largest decoded file length accepted
+ * @returns Tool handler function
+ */
+function createAnalyzeFileHandler(analyzers: AnalyzerCache, sandbox: FileSandbox, maxInputLength: number) {
+  return async (args: FileToolArgs & { path: string }) => {
+    try {
+      const realPath = await sandbox.resolve(args.path);
+      const analysis = await analyzeFile(analyzers, sandbox, realPath, args, maxInputLength);
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(analysis, null, 2),
+        }],
+        structuredContent: { ...analysis },
+      };
+    } catch (error) {
+      console.error("Error in analyzeFile:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates the handler for the analyze_directory tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @param sandbox The sandbox restricting file access
+ * @param maxInputLength The largest decoded file length accepted
+ * @returns Tool handler function
+ */
+function createAnalyzeDirectoryHandler(analyzers: AnalyzerCache, sandbox: FileSandbox, maxInputLength: number) {
+  return async (args: FileToolArgs & { path: string; pattern?: string; maxFiles?: number }) => {
+    try {
+      const listing = await sandbox.listFiles(args.path, {
+        pattern: args.pattern,
+        maxFiles: args.maxFiles ?? DEFAULT_MAX_FILES,
+      });
+
+      const files: FileAnalysis[] = [];
+      const skipped: Array<{ path: string; reason: string }> = [];
+      const totals: TextAnalysisResult = {
+        wordCount: 0,
+        letterCount: 0,
+        characterCount: 0,
+        sentenceCount: 0,
+        paragraphCount: 0,
+        readingTimeSeconds: 0,
+        speakingTimeSeconds: 0,
+      };
+
+      for (const realPath of listing.files) {
+        try {
+          const analysis = await analyzeFile(analyzers, sandbox, realPath, args, maxInputLength);
+          files.push(analysis);
+          for (const metric of Object.keys(totals) as Array<keyof TextAnalysisResult>) {
+            totals[metric] += analysis.result[metric];
+          }
+        } catch (error) {
+          // Once the time budget is spent, every remaining file would be skipped the same way
+          if (error instanceof TimeoutError) {
+            throw error;
+          }
+          skipped.push({
+            path: sandbox.displayPath(realPath),
+            reason: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const result = { files, totals, skipped, truncated: listing.truncated };
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in analyzeDirectory:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the file analysis tools with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @param sandbox The sandbox restricting file access to the allowed roots
+ * @param maxInputLength The largest decoded length of a file that is analyzed
+ */
+export function registerFileTools(
+  server: McpServer,
+  analyzers: AnalyzerCache,
+  sandbox: FileSandbox,
+  maxInputLength: number = DEFAULT_MAX_INPUT_LENGTH
+) {
+  // Register analyze_file tool
+  server.registerTool(
+    "analyze_file",
+    {
+      description: "Analyze a text, Markdown, HTML or XML file under the allowed root directories",
+      inputSchema: AnalyzeFileInputSchema,
+      outputSchema: FileAnalysisSchema.shape,
+    },
+    createAnalyzeFileHandler(analyzers, sandbox, maxInputLength)
+  );
+
+  // Register analyze_directory tool
+  server.registerTool(
+    "analyze_directory",
+    {
+      description: "Analyze every file matching a glob pattern in a directory under the allowed root directories, with per-file results and totals",
+      inputSchema: AnalyzeDirectoryInputSchema,
+      outputSchema: AnalyzeDirectoryOutputSchema,
+    },
+    createAnalyzeDirectoryHandler(analyzers, sandbox, maxInputLength)
+  );
+}
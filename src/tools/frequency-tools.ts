@@ -0,0 +1,127 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { WordFrequencyOptions, analyzeWordFrequency } from "../analyzer/frequency.js";
+import { prepareText } from "../analyzer/formats.js";
+import { ExclusionReportSchema, TextInputSchema, TextToolArgs, prepareInput } from "./shared.js";
+
+// Default and upper limit for the number of terms returned
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 1000;
+
+// Schema for word_frequency input validation
+const WordFrequencyInputSchema = {
+  ...TextInputSchema,
+  ngram: z
+    .number()
+    .int()
+    .min(1)
+    .max(3)
+    .optional()
+    .describe("Words per term: 1 for single words (default), 2 for bigrams, 3 for trigrams"),
+  caseSensitive: z
+    .boolean()
+    .optional()
+    .describe("Keep the original case instead of folding terms to lowercase (default false)"),
+  excludeStopWords: z
+    .boolean()
+    .optional()
+    .describe("Drop common function words of the locale, such as \"the\" and \"and\" (default true)"),
+  stopWords: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Additional words to drop, matched case-insensitively"),
+  minLength: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Drop words shorter than this many characters (default 1)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_LIMIT)
+    .optional()
+    .describe(`Maximum number of terms to return (defaults to ${DEFAULT_LIMIT})`),
+  documents: z
+    .array(z.string())
+    .optional()
+    .describe("Other documents of the corpus, in the same format as text; when given, terms are ranked by TF-IDF"),
+};
+
+// Schema for word_frequency structured output
+const WordFrequencyOutputSchema = {
+  totalTerms: z.number().int().describe("Number of terms in the text before filtering"),
+  uniqueTerms: z.number().int().describe("Number of distinct terms after filtering"),
+  terms: z
+    .array(z.object({
+      term: z.string(),
+      count: z.number().int(),
+      percentage: z.number().describe("Share of all terms in the text, in percent"),
+      documentFrequency: z.number().int().optional().describe("Documents containing the term, including the text (TF-IDF mode)"),
+      tfidf: z.number().optional().describe("TF-IDF score (TF-IDF mode)"),
+    }))
+    .describe("Ranked terms"),
+  excluded: ExclusionReportSchema,
+};
+
+type WordFrequencyToolArgs = TextToolArgs & Omit<WordFrequencyOptions, "documents"> & { documents?: string[] };
+
+/**
+ * Creates the handler for the word_frequency tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createWordFrequencyHandler(analyzers: AnalyzerCache) {
+  return async (args: WordFrequencyToolArgs) => {
+    try {
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      // The other documents are reduced to their prose the same way as the text
+      const documents = args.documents?.map(document =>
+        prepareText(document, { format: args.format, markdown: args.markdown, html: args.html }).text
+      );
+      const result = {
+        ...analyzeWordFrequency(analyzer, text, {
+          ngram: args.ngram,
+          caseSensitive: args.caseSensitive,
+          excludeStopWords: args.excludeStopWords,
+          stopWords: args.stopWords,
+          minLength: args.minLength,
+          limit: args.limit ?? DEFAULT_LIMIT,
+          documents,
+        }),
+        ...(excluded ? { excluded } : {}),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in wordFrequency:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the word frequency tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerFrequencyTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register word_frequency tool
+  server.registerTool(
+    "word_frequency",
+    {
+      description: "List the most frequent words or n-grams with counts and keyword density, optionally ranked by TF-IDF across several documents",
+      inputSchema: WordFrequencyInputSchema,
+      outputSchema: WordFrequencyOutputSchema,
+    },
+    createWordFrequencyHandler(analyzers)
+  );
+}
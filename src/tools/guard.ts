@@ -0,0 +1,120 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UnsupportedLocaleError } from "../analyzer/AnalyzerCache.js";
+import { TimeoutError, withDeadline } from "../analyzer/deadline.js";
+
+// Defaults for the input size and time budget of a tool call
+export const DEFAULT_MAX_INPUT_LENGTH = 5_000_000;
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Limits applied to every tool call
+ */
+export interface ToolLimits {
+  /** Largest total length of the string arguments of a call, in UTF-16 code units */
+  maxInputLength?: number;
+  /** Time budget of a call in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Machine-readable codes of failed tool calls
+ */
+export type ToolErrorCode = "INPUT_TOO_LARGE" | "INVALID_LOCALE" | "TIMEOUT" | "ANALYSIS_FAILED";
+
+/**
+ * Error thrown when the arguments of a tool call, or a file it reads, are longer than the server allows
+ */
+export class InputTooLargeError extends Error {
+  constructor(
+    public readonly length: number,
+    public readonly maxLength: number,
+    message = `Input of ${length} characters exceeds the limit of ${maxLength} characters`
+  ) {
+    super(message);
+    this.name = "InputTooLargeError";
+  }
+}
+
+/**
+ * Sums the lengths of the strings in tool arguments, including those in arrays and objects
+ * @param value The arguments or a part of them
+ * @returns The total length in UTF-16 code units
+ */
+function inputLength(value: unknown): number {
+  if (typeof value === "string") {
+    return value.length;
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.values(value).reduce((total: number, item) => total + inputLength(item), 0);
+  }
+  return 0;
+}
+
+/**
+ * Returns the code reported for an error thrown by a tool
+ * @param error The error
+ * @returns The error code; errors without a specific code are reported as ANALYSIS_FAILED
+ */
+function errorCode(error: unknown): ToolErrorCode {
+  if (error instanceof InputTooLargeError) {
+    return "INPUT_TOO_LARGE";
+  }
+  if (error instanceof UnsupportedLocaleError) {
+    return "INVALID_LOCALE";
+  }
+  if (error instanceof TimeoutError) {
+    return "TIMEOUT";
+  }
+  return "ANALYSIS_FAILED";
+}
+
+/**
+ * Builds the result of a failed tool call, with the error code and message as JSON text. The
+ * error is not structured content, since tools with an output schema would not allow its shape
+ * @param error The error thrown by the tool
+ * @returns Tool result with isError set
+ */
+export function errorResult(error: unknown) {
+  const result = {
+    error: {
+      code: errorCode(error),
+      message: error instanceof Error ? error.message : String(error),
+    },
+  };
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(result, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Makes every tool registered on the server from now on reject arguments longer than the
+ * maximum input length, abandon analysis that runs past the time budget, and report errors as
+ * results with an error code instead of throwing them
+ * @param server The MCP server instance
+ * @param limits The input size and time limits
+ */
+export function guardTools(server: McpServer, limits: ToolLimits = {}) {
+  const maxInputLength = limits.maxInputLength ?? DEFAULT_MAX_INPUT_LENGTH;
+  const timeoutMs = limits.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const registerTool = server.registerTool.bind(server);
+
+  server.registerTool = ((name, config, callback) => {
+    const guarded = async (...params: Parameters<typeof callback>) => {
+      try {
+        const length = inputLength(params[0]);
+        if (length > maxInputLength) {
+          throw new InputTooLargeError(length, maxInputLength);
+        }
+        // The callback's parameters depend on whether the tool has an input schema
+        return await withDeadline(timeoutMs, () => (callback as (...args: unknown[]) => unknown)(...params));
+      } catch (error) {
+        return errorResult(error);
+      }
+    };
+    return registerTool(name, config, guarded as typeof callback);
+  }) as typeof server.registerTool;
+}
@@ -0,0 +1,229 @@
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { IncrementalAnalysis } from "../analyzer/incremental.js";
+import { SentenceCountMode } from "../analyzer/TextAnalyzer.js";
+import { FormatInputSchema, TextAnalysisResultSchema } from "./shared.js";
+
+// Largest number of analyses a client may have open at once
+const MAX_SESSIONS = 16;
+
+// Time without append_text after which an open analysis is discarded
+const SESSION_IDLE_MS = 10 * 60 * 1000;
+
+// Schema for the session identifier returned by begin_analysis
+const SessionIdSchema = z.string().describe("Identifier returned by begin_analysis");
+
+// Schema for begin_analysis input validation
+const BeginAnalysisInputSchema = {
+  locale: FormatInputSchema.locale,
+  sentenceMode: z
+    .enum(["standard", "smart"])
+    .optional()
+    .describe("Sentence counting mode; \"smart\" avoids splitting at abbreviations such as \"Dr.\" (defaults to \"standard\")"),
+};
+
+// Schema for begin_analysis structured output
+const BeginAnalysisOutputSchema = {
+  sessionId: SessionIdSchema,
+  expiresInSeconds: z.number().int().describe("Seconds without append_text after which the session is discarded"),
+};
+
+// Schema for append_text input validation
+const AppendTextInputSchema = {
+  sessionId: SessionIdSchema,
+  text: z.string().describe("The next chunk of plain text; chunks may end anywhere, even inside a word"),
+};
+
+// Schema for append_text and finish_analysis structured output
+const AnalysisProgressOutputSchema = {
+  sessionId: SessionIdSchema,
+  chunks: z.number().int().describe("Number of chunks received"),
+  length: z.number().int().describe("UTF-16 code units received"),
+  totals: TextAnalysisResultSchema.describe("Analysis of the text received so far"),
+};
+
+// Schema for finish_analysis input validation
+const FinishAnalysisInputSchema = {
+  sessionId: SessionIdSchema,
+};
+
+/**
+ * An open chunked analysis and when it was last used
+ */
+interface AnalysisSession {
+  analysis: IncrementalAnalysis;
+  chunks: number;
+  lastUsed: number;
+}
+
+/**
+ * Looks up an open session, failing with a message the client can act on
+ * @param sessions The open sessions
+ * @param sessionId The identifier from begin_analysis
+ * @returns The session
+ */
+function getSession(sessions: Map<string, AnalysisSession>, sessionId: string): AnalysisSession {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new Error(`Unknown or expired analysis session "${sessionId}"; call begin_analysis to start a new one`);
+  }
+  return session;
+}
+
+/**
+ * Discards the sessions that have been idle for too long
+ * @param sessions The open sessions
+ * @param now The current time in milliseconds
+ */
+function expireSessions(sessions: Map<string, AnalysisSession>, now: number) {
+  for (const [sessionId, session] of sessions) {
+    if (now - session.lastUsed > SESSION_IDLE_MS) {
+      sessions.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Builds the progress result of a session
+ * @param sessionId The session identifier
+ * @param session The session
+ * @returns Tool result with the running totals
+ */
+function progressResult(sessionId: string, session: AnalysisSession) {
+  const result = {
+    sessionId,
+    chunks: session.chunks,
+    length: session.analysis.length,
+    totals: session.analysis.result(),
+  };
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(result, null, 2),
+    }],
+    structuredContent: result,
+  };
+}
+
+/**
+ * Creates the handler for the begin_analysis tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @param sessions The open sessions
+ * @returns Tool handler function
+ */
+function createBeginAnalysisHandler(analyzers: AnalyzerCache, sessions: Map<string, AnalysisSession>) {
+  return async (args: { locale?: string; sentenceMode?: SentenceCountMode }) => {
+    try {
+      const now = Date.now();
+      expireSessions(sessions, now);
+      if (sessions.size >= MAX_SESSIONS) {
+        throw new Error(`Too many open analysis sessions (${MAX_SESSIONS}); finish one before beginning another`);
+      }
+
+      const sessionId = randomUUID();
+      const analysis = analyzers.get(args.locale).createIncrementalAnalysis({ mode: args.sentenceMode });
+      sessions.set(sessionId, { analysis, chunks: 0, lastUsed: now });
+      const result = { sessionId, expiresInSeconds: SESSION_IDLE_MS / 1000 };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in beginAnalysis:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates the handler for the append_text tool
+ * @param sessions The open sessions
+ * @returns Tool handler function
+ */
+function createAppendTextHandler(sessions: Map<string, AnalysisSession>) {
+  return async (args: { sessionId: string; text: string }) => {
+    try {
+      const now = Date.now();
+      expireSessions(sessions, now);
+      const session = getSession(sessions, args.sessionId);
+      session.analysis.append(args.text);
+      session.chunks++;
+      session.lastUsed = now;
+
+      return progressResult(args.sessionId, session);
+    } catch (error) {
+      console.error("Error in appendText:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates the handler for the finish_analysis tool, which closes the session
+ * @param sessions The open sessions
+ * @returns Tool handler function
+ */
+function createFinishAnalysisHandler(sessions: Map<string, AnalysisSession>) {
+  return async (args: { sessionId: string }) => {
+    try {
+      expireSessions(sessions, Date.now());
+      const session = getSession(sessions, args.sessionId);
+      sessions.delete(args.sessionId);
+
+      return progressResult(args.sessionId, session);
+    } catch (error) {
+      console.error("Error in finishAnalysis:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the chunked analysis tools with the MCP server. Sessions belong to the server
+ * instance, so each client only sees its own.
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerIncrementalTools(server: McpServer, analyzers: AnalyzerCache) {
+  const sessions = new Map<string, AnalysisSession>();
+
+  // Register begin_analysis tool
+  server.registerTool(
+    "begin_analysis",
+    {
+      description: "Start analyzing a plain text too large for one message: send it in chunks with append_text, then call finish_analysis for the totals",
+      inputSchema: BeginAnalysisInputSchema,
+      outputSchema: BeginAnalysisOutputSchema,
+    },
+    createBeginAnalysisHandler(analyzers, sessions)
+  );
+
+  // Register append_text tool
+  server.registerTool(
+    "append_text",
+    {
+      description: "Append the next chunk of text to an analysis started with begin_analysis and return the running totals",
+      inputSchema: AppendTextInputSchema,
+      outputSchema: AnalysisProgressOutputSchema,
+    },
+    createAppendTextHandler(sessions)
+  );
+
+  // Register finish_analysis tool
+  server.registerTool(
+    "finish_analysis",
+    {
+      description: "Finish an analysis started with begin_analysis, returning the totals for the whole text and closing the session",
+      inputSchema: FinishAnalysisInputSchema,
+      outputSchema: AnalysisProgressOutputSchema,
+    },
+    createFinishAnalysisHandler(sessions)
+  );
+}
@@ -0,0 +1,99 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { LIMIT_METRICS, LimitConstraint, checkLimits } from "../analyzer/limits.js";
+import { ExclusionReportSchema, TextInputSchema, TextToolArgs, excludedMedia, prepareInput } from "./shared.js";
+
+// Schema for a metric name
+const LimitMetricSchema = z.enum(LIMIT_METRICS);
+
+// Schema for a single constraint
+const LimitConstraintSchema = z
+  .object({
+    metric: LimitMetricSchema.describe("Metric to limit; characterCount counts user-perceived characters (graphemes)"),
+    min: z.number().min(0).optional().describe("Smallest allowed value, inclusive"),
+    max: z.number().min(0).optional().describe("Largest allowed value, inclusive"),
+  })
+  .refine(constraint => constraint.min !== undefined || constraint.max !== undefined, {
+    message: "Each limit needs a min, a max or both",
+  })
+  .refine(constraint => constraint.min === undefined || constraint.max === undefined || constraint.min <= constraint.max, {
+    message: "min must not be greater than max",
+  });
+
+// Schema for check_limits input validation
+const CheckLimitsInputSchema = {
+  ...TextInputSchema,
+  limits: z
+    .array(LimitConstraintSchema)
+    .min(1)
+    .describe("Constraints to check, e.g. [{\"metric\": \"wordCount\", \"max\": 250}]"),
+};
+
+// Schema for check_limits structured output
+const CheckLimitsOutputSchema = {
+  passed: z.boolean().describe("Whether every limit passed"),
+  checks: z
+    .array(z.object({
+      metric: LimitMetricSchema,
+      min: z.number().optional(),
+      max: z.number().optional(),
+      actual: z.number().describe("The metric's value for the text"),
+      passed: z.boolean(),
+      exceededBy: z.number().optional().describe("How far the text is over the maximum"),
+      shortBy: z.number().optional().describe("How far the text is under the minimum"),
+      exceededAt: z
+        .number()
+        .int()
+        .optional()
+        .describe("UTF-16 offset of the first unit beyond the maximum; the text up to this offset is within the limit"),
+    }))
+    .describe("Result of each limit, in the order given"),
+  excluded: ExclusionReportSchema,
+};
+
+/**
+ * Creates the handler for the check_limits tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createCheckLimitsHandler(analyzers: AnalyzerCache) {
+  return async (args: TextToolArgs & { limits: LimitConstraint[] }) => {
+    try {
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const result = {
+        ...checkLimits(analyzer, text, args.limits, excludedMedia(excluded)),
+        ...(excluded ? { excluded } : {}),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in checkLimits:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the limit checking tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerLimitTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register check_limits tool
+  server.registerTool(
+    "check_limits",
+    {
+      description: "Check text against minimum and maximum word, character, sentence, paragraph or time limits, reporting how far over or under it is and the offset where a maximum is exceeded. For markdown, html and xml input, offsets refer to the extracted prose",
+      inputSchema: CheckLimitsInputSchema,
+      outputSchema: CheckLimitsOutputSchema,
+    },
+    createCheckLimitsHandler(analyzers)
+  );
+}
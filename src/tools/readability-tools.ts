@@ -0,0 +1,101 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { SentenceCountMode } from "../analyzer/TextAnalyzer.js";
+import { analyzeReadability } from "../analyzer/readability.js";
+import { ExclusionReportSchema, TextInputSchema, TextToolArgs, prepareInput } from "./shared.js";
+
+// Schema for readability input validation
+const ReadabilityInputSchema = {
+  ...TextInputSchema,
+  sentenceMode: z
+    .enum(["standard", "smart"])
+    .optional()
+    .describe("Sentence counting mode; \"smart\" avoids splitting at abbreviations such as \"Dr.\" (defaults to \"standard\")"),
+  abbreviations: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Extra abbreviations that never end a sentence in smart mode, e.g. [\"Corp.\", \"U.S.\"]"),
+};
+
+// Schema for readability structured output
+const ReadabilityOutputSchema = {
+  statistics: z
+    .object({
+      words: z.number().int(),
+      sentences: z.number().int(),
+      syllables: z.number().int(),
+      characters: z.number().int().describe("Letters and digits in words"),
+      polysyllables: z.number().int().describe("Words of three or more syllables"),
+      complexWords: z.number().int().describe("Polysyllables not counting -es, -ed and -ing endings"),
+    })
+    .describe("Counts the scores are computed from"),
+  scores: z
+    .object({
+      fleschReadingEase: z.number().describe("0-100, higher is easier"),
+      fleschKincaidGrade: z.number(),
+      gunningFog: z.number(),
+      smog: z.number(),
+      colemanLiau: z.number(),
+      automatedReadabilityIndex: z.number(),
+    })
+    .nullable()
+    .describe("Readability indices; all but Flesch Reading Ease are US grade levels (null for text without words)"),
+  summary: z
+    .object({
+      gradeLevel: z.number().describe("Mean of the grade-level indices"),
+      difficulty: z.string().describe("Flesch Reading Ease band, e.g. \"Plain English\""),
+      audience: z.string().describe("Reader the text suits, e.g. \"8th grade\" or \"College\""),
+    })
+    .nullable()
+    .describe("Grade-level summary (null for text without words)"),
+  excluded: ExclusionReportSchema,
+};
+
+/**
+ * Creates the handler for the readability tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createReadabilityHandler(analyzers: AnalyzerCache) {
+  return async (args: TextToolArgs & { sentenceMode?: SentenceCountMode; abbreviations?: string[] }) => {
+    try {
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const result = {
+        ...analyzeReadability(analyzer, text, {
+          sentences: { mode: args.sentenceMode, abbreviations: args.abbreviations },
+        }),
+        ...(excluded ? { excluded } : {}),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in readability:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the readability tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerReadabilityTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register readability tool
+  server.registerTool(
+    "readability",
+    {
+      description: "Score reading difficulty with Flesch Reading Ease, Flesch-Kincaid, Gunning Fog, SMOG, Coleman-Liau and ARI, with a grade-level summary",
+      inputSchema: ReadabilityInputSchema,
+      outputSchema: ReadabilityOutputSchema,
+    },
+    createReadabilityHandler(analyzers)
+  );
+}
@@ -0,0 +1,107 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { SentenceCountMode } from "../analyzer/TextAnalyzer.js";
+import { SegmentUnit, segmentText } from "../analyzer/segments.js";
+import { FormatInputSchema, TextInputSchema } from "./shared.js";
+
+// Default and upper limit for the number of segments returned per call
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Schema for segment_text input validation; markup input is not accepted since offsets refer to the text
+const SegmentTextInputSchema = {
+  text: TextInputSchema.text.describe("The plain text to split"),
+  locale: FormatInputSchema.locale,
+  unit: z.enum(["words", "sentences", "paragraphs"]).describe("Unit to split the text into"),
+  sentenceMode: z
+    .enum(["standard", "smart"])
+    .optional()
+    .describe("Sentence splitting mode; \"smart\" avoids splitting at abbreviations such as \"Dr.\" (defaults to \"standard\")"),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Number of segments to skip, e.g. the nextOffset of the previous page (default 0)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_LIMIT)
+    .optional()
+    .describe(`Maximum number of segments to return (defaults to ${DEFAULT_LIMIT})`),
+};
+
+// Schema for segment_text structured output
+const SegmentTextOutputSchema = {
+  total: z.number().int().describe("Number of segments in the whole text"),
+  offset: z.number().int().describe("Number of segments skipped"),
+  segments: z
+    .array(z.object({
+      index: z.number().int().describe("Position among all segments, starting at 0"),
+      text: z.string().describe("The segment, without surrounding whitespace"),
+      start: z.number().int().describe("UTF-16 offset where the segment starts"),
+      end: z.number().int().describe("UTF-16 offset just after the segment"),
+      graphemeStart: z.number().int().describe("Grapheme (user-perceived character) index where the segment starts"),
+      graphemeEnd: z.number().int().describe("Grapheme index just after the segment"),
+    }))
+    .describe("Segments of this page"),
+  nextOffset: z.number().int().optional().describe("Offset of the next page; absent on the last page"),
+};
+
+type SegmentTextToolArgs = {
+  text: string;
+  locale?: string;
+  unit: SegmentUnit;
+  sentenceMode?: SentenceCountMode;
+  offset?: number;
+  limit?: number;
+};
+
+/**
+ * Creates the handler for the segment_text tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createSegmentTextHandler(analyzers: AnalyzerCache) {
+  return async (args: SegmentTextToolArgs) => {
+    try {
+      const analyzer = analyzers.get(args.locale);
+      const result = segmentText(analyzer, args.text, args.unit, {
+        sentences: { mode: args.sentenceMode },
+        offset: args.offset,
+        limit: args.limit ?? DEFAULT_LIMIT,
+      });
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: { ...result },
+      };
+    } catch (error) {
+      console.error("Error in segmentText:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the segmentation tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerSegmentTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register segment_text tool
+  server.registerTool(
+    "segment_text",
+    {
+      description: "Split plain text into words, sentences or paragraphs with their start and end offsets in UTF-16 code units and graphemes, paginated with offset and limit",
+      inputSchema: SegmentTextInputSchema,
+      outputSchema: SegmentTextOutputSchema,
+    },
+    createSegmentTextHandler(analyzers)
+  );
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { FormatExclusions, FormatOptions, TextFormat, prepareText } from "../analyzer/formats.js";
+import { MarkdownOptions } from "../analyzer/markdown.js";
+import { TimeEstimateOptions } from "../analyzer/TextAnalyzer.js";
+
+// Schema for optional per-call locale selection; unsupported locales are reported by the tool
+// call with the INVALID_LOCALE error code
+const LocaleSchema = z
+  .string()
+  .optional()
+  .describe("BCP 47 language tag used for segmentation, e.g. \"en-US\", \"th\" or \"ja-JP\" (defaults to the server locale)");
+
+// Schema for Markdown-specific input switches
+const MarkdownOptionsSchema = z
+  .object({
+    codeBlocks: z.boolean().optional().describe("Include fenced and indented code blocks (default false)"),
+    inlineCode: z.boolean().optional().describe("Include inline code spans (default true)"),
+    altText: z.boolean().optional().describe("Include image alt text (default false)"),
+    frontMatter: z.boolean().optional().describe("Include YAML/TOML front matter (default false)"),
+  })
+  .optional()
+  .describe("Options for Markdown input");
+
+// Schema for HTML/XML-specific input options
+const HtmlOptionsSchema = z
+  .object({
+    selector: z
+      .string()
+      .optional()
+      .describe("Analyze only elements matching a CSS-like selector, e.g. \"article\", \"main\", \"#content\" or \"div.post\""),
+  })
+  .optional()
+  .describe("Options for HTML and XML input");
+
+// Schema for the locale and input format arguments shared by all analysis tools
+export const FormatInputSchema = {
+  locale: LocaleSchema,
+  format: z
+    .enum(["text", "markdown", "html", "xml"])
+    .optional()
+    .describe("Input format; \"markdown\", \"html\" and \"xml\" analyze only the visible prose, ignoring markup (defaults to \"text\")"),
+  markdown: MarkdownOptionsSchema,
+  html: HtmlOptionsSchema,
+};
+
+// Schema for text input validation
+export const TextInputSchema = {
+  text: z.string().describe("The text to analyze"),
+  ...FormatInputSchema,
+};
+
+/**
+ * Arguments shared by all text analysis tools
+ */
+export interface TextToolArgs {
+  text: string;
+  locale?: string;
+  format?: TextFormat;
+  markdown?: MarkdownOptions;
+  html?: FormatOptions["html"];
+}
+
+/**
+ * Report of the text left out when analyzing a non-plain input format
+ */
+export type ExclusionReport = FormatExclusions & {
+  /** Characters in the input that are not part of the analyzed prose */
+  characters: number;
+  /** Words in the input that are not part of the analyzed prose */
+  words: number;
+};
+
+// Schema for a complete TextAnalysisResult in structured tool output
+export const TextAnalysisResultSchema = z.object({
+  wordCount: z.number().int().describe("Number of words"),
+  letterCount: z.number().int().describe("Number of letters"),
+  characterCount: z.number().int().describe("Number of user-perceived characters"),
+  sentenceCount: z.number().int().describe("Number of sentences"),
+  paragraphCount: z.number().int().describe("Number of paragraphs"),
+  readingTimeSeconds: z.number().int().describe("Estimated silent reading time in seconds"),
+  speakingTimeSeconds: z.number().int().describe("Estimated speaking time in seconds"),
+});
+
+// Schema for the exclusion report in structured tool output
+export const ExclusionReportSchema = z
+  .object({
+    characters: z.number().int(),
+    words: z.number().int(),
+    codeBlocks: z.number().int().optional(),
+    inlineCode: z.number().int().optional(),
+    images: z.number().int().optional(),
+    frontMatter: z.boolean().optional(),
+    scripts: z.number().int().optional(),
+    styles: z.number().int().optional(),
+    comments: z.number().int().optional(),
+  })
+  .optional()
+  .describe("Text left out of the analysis for non-plain input formats");
+
+/**
+ * Resolves the analyzer for a tool call and reduces the input to the prose to analyze
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @param args The tool arguments
+ * @returns The analyzer, the prose, an exclusion report for non-plain formats and the sections of Markdown
+ */
+export function prepareInput(analyzers: AnalyzerCache, args: TextToolArgs) {
+  const analyzer = analyzers.get(args.locale);
+  const prepared = prepareText(args.text, { format: args.format, markdown: args.markdown, html: args.html });
+
+  let excluded: ExclusionReport | undefined;
+  if (prepared.excluded) {
+    excluded = {
+      characters: Math.max(0, analyzer.countCharacters(args.text) - analyzer.countCharacters(prepared.text)),
+      words: Math.max(0, analyzer.countWords(args.text) - analyzer.countWords(prepared.text)),
+      ...prepared.excluded,
+    };
+  }
+
+  return { analyzer, text: prepared.text, excluded, sections: prepared.sections };
+}
+
+/**
+ * Returns the images and code blocks left out of the prose, which add to the reading time
+ * @param excluded The exclusion report for non-plain input formats
+ * @returns Time estimate options with the excluded Markdown images and code blocks
+ */
+export function excludedMedia(excluded?: ExclusionReport): TimeEstimateOptions {
+  if (!excluded || !("images" in excluded)) {
+    return {};
+  }
+  return { images: excluded.images, codeBlocks: excluded.codeBlocks };
+}
+
+/**
+ * Builds a text tool result, appending the exclusion report as a second content item if present
+ * @param result The primary result text
+ * @param excluded The exclusion report for non-plain input formats
+ * @returns Tool result content
+ */
+export function textResult(result: string, excluded?: ExclusionReport) {
+  const content = [{
+    type: "text" as const,
+    text: result,
+  }];
+  if (excluded) {
+    content.push({
+      type: "text" as const,
+      text: JSON.stringify({ excluded }, null, 2),
+    });
+  }
+  return { content };
+}
@@ -0,0 +1,103 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { countRateCharacters, formatDuration, usesCharacterRate } from "../analyzer/timing.js";
+import { ExclusionReportSchema, TextInputSchema, TextToolArgs, excludedMedia, prepareInput } from "./shared.js";
+
+// Schema for a reading or speaking rate
+const RateSchema = z.number().positive().max(100_000);
+
+// Schema for estimate_time input validation
+const EstimateTimeInputSchema = {
+  ...TextInputSchema,
+  readingWordsPerMinute: RateSchema.optional().describe("Silent reading speed in words per minute (default 238)"),
+  speakingWordsPerMinute: RateSchema.optional().describe("Speaking speed in words per minute (default 150)"),
+  readingCharactersPerMinute: RateSchema
+    .optional()
+    .describe("Silent reading speed in characters per minute for Chinese, Japanese and Korean (default 300)"),
+  speakingCharactersPerMinute: RateSchema
+    .optional()
+    .describe("Speaking speed in characters per minute for Chinese, Japanese and Korean (default 250)"),
+};
+
+// Schema for a single duration in structured output
+const DurationSchema = z.object({
+  seconds: z.number().int().describe("Duration in whole seconds"),
+  text: z.string().describe("Human-readable duration, e.g. \"4 min 12 sec\""),
+});
+
+// Schema for estimate_time structured output
+const EstimateTimeOutputSchema = {
+  unit: z.enum(["words", "characters"]).describe("Unit the rates apply to, which depends on the locale"),
+  length: z.number().int().describe("Length of the text in that unit"),
+  reading: DurationSchema.describe("Silent reading time, including viewing time for excluded images and code blocks"),
+  speaking: DurationSchema.describe("Time to read the text aloud"),
+  excluded: ExclusionReportSchema,
+};
+
+type EstimateTimeToolArgs = TextToolArgs & {
+  readingWordsPerMinute?: number;
+  speakingWordsPerMinute?: number;
+  readingCharactersPerMinute?: number;
+  speakingCharactersPerMinute?: number;
+};
+
+/**
+ * Creates the handler for the estimate_time tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createEstimateTimeHandler(analyzers: AnalyzerCache) {
+  return async (args: EstimateTimeToolArgs) => {
+    try {
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const characterRate = usesCharacterRate(analyzer.locale);
+      const readingSeconds = analyzer.estimateReadingTime(text, {
+        wordsPerMinute: args.readingWordsPerMinute,
+        charactersPerMinute: args.readingCharactersPerMinute,
+        ...excludedMedia(excluded),
+      });
+      const speakingSeconds = analyzer.estimateSpeakingTime(text, {
+        wordsPerMinute: args.speakingWordsPerMinute,
+        charactersPerMinute: args.speakingCharactersPerMinute,
+      });
+
+      const result = {
+        unit: characterRate ? "characters" as const : "words" as const,
+        length: characterRate ? countRateCharacters(text) : analyzer.countWords(text),
+        reading: { seconds: readingSeconds, text: formatDuration(readingSeconds) },
+        speaking: { seconds: speakingSeconds, text: formatDuration(speakingSeconds) },
+        ...(excluded ? { excluded } : {}),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in estimateTime:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the time estimate tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerTimeTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register estimate_time tool
+  server.registerTool(
+    "estimate_time",
+    {
+      description: "Estimate reading and speaking time, in words per minute or characters per minute for Chinese, Japanese and Korean",
+      inputSchema: EstimateTimeInputSchema,
+      outputSchema: EstimateTimeOutputSchema,
+    },
+    createEstimateTimeHandler(analyzers)
+  );
+}
@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { SentenceCountMode } from "../analyzer/TextAnalyzer.js";
+import { TruncateUnit, truncateText } from "../analyzer/truncate.js";
+import { FormatInputSchema, TextInputSchema } from "./shared.js";
+
+// Schema for truncate_text input validation; markup input is not accepted since the result would lose it
+const TruncateTextInputSchema = {
+  text: TextInputSchema.text.describe("The plain text to truncate"),
+  locale: FormatInputSchema.locale,
+  unit: z.enum(["words", "characters", "sentences"]).describe("Unit of the limit; characters are user-perceived characters (graphemes)"),
+  limit: z.number().int().min(0).describe("Largest number of units to keep, including the ellipsis"),
+  ellipsis: z
+    .string()
+    .optional()
+    .describe("Suffix appended when the text is cut, e.g. \"…\" or \" [...]\"; omitted if it alone exceeds the limit"),
+  wholeSentences: z
+    .boolean()
+    .optional()
+    .describe("For words and characters, cut after the last whole sentence that fits, or at a word boundary if none fits (default false)"),
+  sentenceMode: z
+    .enum(["standard", "smart"])
+    .optional()
+    .describe("Sentence splitting mode; \"smart\" avoids splitting at abbreviations such as \"Dr.\" (defaults to \"standard\")"),
+};
+
+// Schema for truncate_text structured output
+const TruncateTextOutputSchema = {
+  text: z.string().describe("The truncated text, or the original text if it was within the limit"),
+  truncated: z.boolean().describe("Whether the text was cut"),
+  originalCount: z.number().int().describe("Length of the original text in the unit"),
+  count: z.number().int().describe("Length of the result in the unit, including the ellipsis"),
+  cutAt: z.number().int().describe("UTF-16 offset in the original text where the kept part ends"),
+};
+
+type TruncateTextToolArgs = {
+  text: string;
+  locale?: string;
+  unit: TruncateUnit;
+  limit: number;
+  ellipsis?: string;
+  wholeSentences?: boolean;
+  sentenceMode?: SentenceCountMode;
+};
+
+/**
+ * Creates the handler for the truncate_text tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createTruncateTextHandler(analyzers: AnalyzerCache) {
+  return async (args: TruncateTextToolArgs) => {
+    try {
+      const analyzer = analyzers.get(args.locale);
+      const result = truncateText(analyzer, args.text, {
+        unit: args.unit,
+        limit: args.limit,
+        ellipsis: args.ellipsis,
+        wholeSentences: args.wholeSentences,
+        sentences: { mode: args.sentenceMode },
+      });
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: { ...result },
+      };
+    } catch (error) {
+      console.error("Error in truncateText:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the truncation tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerTruncateTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register truncate_text tool
+  server.registerTool(
+    "truncate_text",
+    {
+      description: "Truncate plain text to a number of words, characters or sentences at word or sentence boundaries, without splitting words or grapheme clusters, optionally keeping whole sentences and adding an ellipsis",
+      inputSchema: TruncateTextInputSchema,
+      outputSchema: TruncateTextOutputSchema,
+    },
+    createTruncateTextHandler(analyzers)
+  );
+}
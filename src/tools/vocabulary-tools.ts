@@ -0,0 +1,111 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { SentenceCountMode } from "../analyzer/TextAnalyzer.js";
+import { analyzeVocabulary } from "../analyzer/vocabulary.js";
+import { ExclusionReportSchema, TextInputSchema, TextToolArgs, prepareInput } from "./shared.js";
+
+// Schema for vocabulary_stats input validation
+const VocabularyStatsInputSchema = {
+  ...TextInputSchema,
+  sentenceMode: z
+    .enum(["standard", "smart"])
+    .optional()
+    .describe("Sentence splitting mode for the sentence lengths; \"smart\" avoids splitting at abbreviations such as \"Dr.\" (defaults to \"standard\")"),
+  caseSensitive: z
+    .boolean()
+    .optional()
+    .describe("Count words differing only in case as different words (default false)"),
+  longWordLength: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Smallest number of characters of a long word (default 7)"),
+};
+
+// Schema for vocabulary_stats structured output
+const VocabularyStatsOutputSchema = {
+  totalWords: z.number().int().describe("Number of words"),
+  uniqueWords: z.number().int().describe("Number of distinct words"),
+  typeTokenRatio: z.number().describe("Unique words divided by total words; falls as texts get longer"),
+  mtld: z.number().nullable().describe("Measure of Textual Lexical Diversity, largely independent of length (null when no word repeats)"),
+  hdd: z.number().nullable().describe("HD-D, the expected type-token ratio of a random 42-word sample (null below 42 words)"),
+  hapaxLegomena: z.number().int().describe("Words that occur exactly once"),
+  averageWordLength: z.number().describe("Mean number of characters per word"),
+  longWords: z.number().int().describe("Words of at least longWordLength characters"),
+  longWordRatio: z.number().describe("Long words divided by total words"),
+  sentenceLengths: z
+    .object({
+      count: z.number().int(),
+      mean: z.number(),
+      median: z.number(),
+      standardDeviation: z.number(),
+      longest: z
+        .object({
+          index: z.number().int().describe("Position of the sentence, starting at 0"),
+          wordCount: z.number().int(),
+          text: z.string(),
+        })
+        .nullable()
+        .describe("Sentence with the most words (null without sentences)"),
+    })
+    .describe("Distribution of the number of words per sentence"),
+  excluded: ExclusionReportSchema,
+};
+
+type VocabularyStatsToolArgs = TextToolArgs & {
+  sentenceMode?: SentenceCountMode;
+  caseSensitive?: boolean;
+  longWordLength?: number;
+};
+
+/**
+ * Creates the handler for the vocabulary_stats tool
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createVocabularyStatsHandler(analyzers: AnalyzerCache) {
+  return async (args: VocabularyStatsToolArgs) => {
+    try {
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const result = {
+        ...analyzeVocabulary(analyzer, text, {
+          sentences: { mode: args.sentenceMode },
+          caseSensitive: args.caseSensitive,
+          longWordLength: args.longWordLength,
+        }),
+        ...(excluded ? { excluded } : {}),
+      };
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      console.error("Error in vocabularyStats:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Registers the vocabulary statistics tool with the MCP server
+ * @param server The MCP server instance
+ * @param analyzers The per-locale TextAnalyzer cache
+ */
+export function registerVocabularyTools(server: McpServer, analyzers: AnalyzerCache) {
+  // Register vocabulary_stats tool
+  server.registerTool(
+    "vocabulary_stats",
+    {
+      description: "Measure vocabulary richness and sentence variety: unique words, type-token ratio, MTLD and HD-D lexical diversity, hapax legomena, average and long word lengths, and the mean, median, spread and longest of the sentence lengths",
+      inputSchema: VocabularyStatsInputSchema,
+      outputSchema: VocabularyStatsOutputSchema,
+    },
+    createVocabularyStatsHandler(analyzers)
+  );
+}
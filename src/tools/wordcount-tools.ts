@@ -1,38 +1,272 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { TextAnalyzer } from "../analyzer/TextAnalyzer.js";
+import {
+  CharacterCountUnit,
+  LetterCountMode,
+  TextAnalysisResult,
+  TextAnalyzer,
+  WordCountMode,
+  WordCountProfile,
+} from "../analyzer/TextAnalyzer.js";
+import { AnalyzerCache } from "../analyzer/AnalyzerCache.js";
+import { FileSandbox } from "../files/FileSandbox.js";
+import { registerBatchTools } from "./batch-tools.js";
+import { registerBreakdownTools } from "./breakdown-tools.js";
+import { registerCompareTools } from "./compare-tools.js";
+import { registerFileTools } from "./file-tools.js";
+import { registerFrequencyTools } from "./frequency-tools.js";
+import { guardTools } from "./guard.js";
+import { registerIncrementalTools } from "./incremental-tools.js";
+import { registerLimitTools } from "./limit-tools.js";
+import { registerReadabilityTools } from "./readability-tools.js";
+import { registerSegmentTools } from "./segment-tools.js";
+import { registerTimeTools } from "./time-tools.js";
+import { registerTruncateTools } from "./truncate-tools.js";
+import { registerVocabularyTools } from "./vocabulary-tools.js";
+import { ExclusionReport, ExclusionReportSchema, TextInputSchema, TextToolArgs, excludedMedia, prepareInput, textResult } from "./shared.js";
 
-// Schema for text input validation
-const TextInputSchema = {
-  text: z.string().describe("The text to analyze"),
+/**
+ * Options for registering the word count tools
+ */
+export interface WordCountToolsOptions {
+  /** BCP 47 language tag used when a tool call does not specify a locale (defaults to "en-US") */
+  defaultLocale?: string;
+  /** Directories the file tools may read from; the file tools are only registered when set */
+  allowedRoots?: string[];
+  /** Largest number of items accepted by analyze_batch (defaults to 100) */
+  maxBatchSize?: number;
+  /** Largest total length of the text arguments of a tool call, in UTF-16 code units (defaults to 5,000,000) */
+  maxInputLength?: number;
+  /** Time budget of a tool call in milliseconds (defaults to 30,000) */
+  timeoutMs?: number;
+}
+
+// Schema for count_words input validation
+const WordCountInputSchema = {
+  ...TextInputSchema,
+  mode: z
+    .enum(["standard", "cjk"])
+    .optional()
+    .describe("\"standard\" counts dictionary words, also in Chinese and Japanese (default); \"cjk\" counts each Chinese and Japanese character as a word, like Microsoft Word and publishers"),
+  profile: z
+    .enum(["unicode", "ms-word", "google-docs", "wc"])
+    .optional()
+    .describe("Counting convention: \"unicode\" uses Unicode word boundaries (default); \"ms-word\", \"google-docs\" and \"wc\" match the counts of Microsoft Word, Google Docs and wc -w for hyphens, dashes, URLs and lone punctuation"),
+  cjkBreakdown: z
+    .boolean()
+    .optional()
+    .describe("Return a JSON breakdown of ideographs, kana, hangul, full-width punctuation, manuscript characters (excluding whitespace) and the mixed-script total instead of a single count"),
+};
+
+// Schema for count_letters input validation
+const LetterCountInputSchema = {
+  ...TextInputSchema,
+  mode: z
+    .enum(["unicode", "ascii"])
+    .optional()
+    .describe("\"unicode\" counts any Unicode letter (default); \"ascii\" counts only a-z and A-Z"),
+  byScript: z
+    .boolean()
+    .optional()
+    .describe("Return a JSON breakdown of letters per script (Latin, Cyrillic, Han, ...) instead of a single count"),
+};
+
+// Schema for count_characters input validation
+const CharacterCountInputSchema = {
+  ...TextInputSchema,
+  unit: z
+    .enum(["graphemes", "code-points", "utf16-units", "utf8-bytes", "non-whitespace"])
+    .optional()
+    .describe("\"graphemes\" counts user-perceived characters (default); \"code-points\" counts Unicode code points, as many databases do; \"utf16-units\" counts JavaScript string length; \"utf8-bytes\" counts encoded bytes, as byte-limited APIs do; \"non-whitespace\" counts characters without spaces, as editors do"),
+  allUnits: z
+    .boolean()
+    .optional()
+    .describe("Return a JSON object with the length in every unit instead of a single count"),
+};
+
+// Schema for count_sentences input validation
+const SentenceCountInputSchema = {
+  ...TextInputSchema,
+  mode: z
+    .enum(["standard", "smart"])
+    .optional()
+    .describe("\"standard\" uses Unicode sentence boundaries (default); \"smart\" also handles abbreviations, numbers, quoted speech and ellipses"),
+  abbreviations: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Extra abbreviations that never end a sentence in smart mode, e.g. [\"Corp.\", \"approx.\"]"),
+};
+
+// Maps each field of TextAnalysisResult to the analyzer method that computes it
+const METRIC_METHODS: Record<keyof TextAnalysisResult, keyof TextAnalyzer> = {
+  wordCount: "countWords",
+  letterCount: "countLetters",
+  characterCount: "countCharacters",
+  sentenceCount: "countSentences",
+  paragraphCount: "countParagraphs",
+  readingTimeSeconds: "estimateReadingTime",
+  speakingTimeSeconds: "estimateSpeakingTime",
+};
+
+const METRIC_NAMES = Object.keys(METRIC_METHODS) as [keyof TextAnalysisResult, ...(keyof TextAnalysisResult)[]];
+
+// Schema for analyze_text input validation
+const AnalyzeTextInputSchema = {
+  ...TextInputSchema,
+  metrics: z
+    .array(z.enum(METRIC_NAMES))
+    .optional()
+    .describe("Metrics to include in the result (defaults to all metrics)"),
+};
+
+// Schema for analyze_text structured output; fields are optional because callers may select metrics
+const AnalyzeTextOutputSchema = {
+  wordCount: z.number().int().optional().describe("Number of words"),
+  letterCount: z.number().int().optional().describe("Number of alphabetic letters"),
+  characterCount: z.number().int().optional().describe("Number of user-perceived characters"),
+  sentenceCount: z.number().int().optional().describe("Number of sentences"),
+  paragraphCount: z.number().int().optional().describe("Number of paragraphs"),
+  readingTimeSeconds: z.number().int().optional().describe("Estimated silent reading time in seconds"),
+  speakingTimeSeconds: z.number().int().optional().describe("Estimated speaking time in seconds"),
+  excluded: ExclusionReportSchema,
 };
 
 /**
  * Helper function to create a tool handler with consistent error handling
- * @param analyzer The TextAnalyzer instance
+ * @param analyzers The per-locale TextAnalyzer cache
  * @param methodName The analyzer method to call
  * @param resultLabel The label for the result (e.g., "Word count")
  * @returns Tool handler function
  */
 function createToolHandler(
-  analyzer: TextAnalyzer,
+  analyzers: AnalyzerCache,
   methodName: keyof TextAnalyzer,
   resultLabel: string
 ) {
-  return async (args: { text: string }) => {
+  return async (args: TextToolArgs & { [option: string]: unknown }) => {
     try {
-      const { text } = args;
-      const method = analyzer[methodName] as (text: string) => number;
-      const result = method.call(analyzer, text);
-      
+      // Remaining arguments are passed through as the analyzer method's options
+      const { text: input, locale, format, markdown, html, ...options } = args;
+      const { analyzer, text, excluded } = prepareInput(analyzers, { text: input, locale, format, markdown, html });
+      const method = analyzer[methodName] as (text: string, options?: object) => number;
+      const result = method.call(analyzer, text, options);
+
+      return textResult(result.toString(), excluded);
+    } catch (error) {
+      console.error(`Error in ${String(methodName)}:`, error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates the handler for the count_words tool, which returns either a plain count
+ * or a breakdown of Chinese, Japanese and Korean characters as JSON
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createWordCountHandler(analyzers: AnalyzerCache) {
+  return async (args: TextToolArgs & { mode?: WordCountMode; profile?: WordCountProfile; cjkBreakdown?: boolean }) => {
+    try {
+      const { mode, profile, cjkBreakdown } = args;
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const result = cjkBreakdown
+        ? JSON.stringify(analyzer.countCjk(text), null, 2)
+        : analyzer.countWords(text, { mode, profile }).toString();
+
+      return textResult(result, excluded);
+    } catch (error) {
+      console.error("Error in countWords:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates the handler for the count_characters tool, which returns either a plain count
+ * or the length in every unit as JSON
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createCharacterCountHandler(analyzers: AnalyzerCache) {
+  return async (args: TextToolArgs & { unit?: CharacterCountUnit; allUnits?: boolean }) => {
+    try {
+      const { unit, allUnits } = args;
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const result = allUnits
+        ? JSON.stringify(analyzer.countCharacterUnits(text), null, 2)
+        : analyzer.countCharacters(text, { unit }).toString();
+
+      return textResult(result, excluded);
+    } catch (error) {
+      console.error("Error in countCharacters:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates the handler for the count_letters tool, which returns either a plain count
+ * or a per-script breakdown as JSON
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createLetterCountHandler(analyzers: AnalyzerCache) {
+  return async (args: TextToolArgs & { mode?: LetterCountMode; byScript?: boolean }) => {
+    try {
+      const { mode, byScript } = args;
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const result = byScript
+        ? JSON.stringify(analyzer.countLettersByScript(text), null, 2)
+        : analyzer.countLetters(text, { mode }).toString();
+
+      return textResult(result, excluded);
+    } catch (error) {
+      console.error("Error in countLetters:", error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates the handler for the analyze_text tool, which returns the selected metrics
+ * as structured content along with a JSON text fallback
+ * @param analyzers The per-locale TextAnalyzer cache
+ * @returns Tool handler function
+ */
+function createAnalyzeTextHandler(analyzers: AnalyzerCache) {
+  return async (args: TextToolArgs & { metrics?: Array<keyof TextAnalysisResult> }) => {
+    try {
+      const { metrics } = args;
+      const { analyzer, text, excluded } = prepareInput(analyzers, args);
+      const timeOptions = excludedMedia(excluded);
+      let result: Partial<TextAnalysisResult> & { excluded?: ExclusionReport };
+
+      if (metrics === undefined) {
+        result = analyzer.analyzeText(text, timeOptions);
+      } else {
+        result = {};
+        for (const metric of METRIC_NAMES) {
+          if (metrics.includes(metric)) {
+            // Only the time estimates use the options; the counting methods ignore unknown options
+            const method = analyzer[METRIC_METHODS[metric]] as (text: string, options?: object) => number;
+            result[metric] = method.call(analyzer, text, timeOptions);
+          }
+        }
+      }
+      if (excluded) {
+        result.excluded = excluded;
+      }
+
       return {
         content: [{
           type: "text" as const,
-          text: result.toString(),
+          text: JSON.stringify(result, null, 2),
         }],
+        structuredContent: result,
       };
     } catch (error) {
-      console.error(`Error in ${String(methodName)}:`, error);
+      console.error("Error in analyzeText:", error);
       throw error;
     }
   };
@@ -41,48 +275,52 @@ function createToolHandler(
 /**
  * Registers all word count tools with the MCP server
  * @param server The MCP server instance
+ * @param options Registration options, such as the server-wide default locale
  */
-export function registerWordCountTools(server: McpServer) {
-  const analyzer = new TextAnalyzer();
+export function registerWordCountTools(server: McpServer, options: WordCountToolsOptions = {}) {
+  const analyzers = new AnalyzerCache(options.defaultLocale);
+
+  // Every tool registered below is subject to the input size and time limits
+  guardTools(server, { maxInputLength: options.maxInputLength, timeoutMs: options.timeoutMs });
 
   // Register count_words tool
   server.registerTool(
     "count_words",
     {
-      description: "Count words by splitting on whitespace",
-      inputSchema: TextInputSchema,
+      description: "Count words by splitting on whitespace, optionally following the conventions of Microsoft Word, Google Docs or wc, counting Chinese and Japanese characters as words or broken down by kind of CJK character",
+      inputSchema: WordCountInputSchema,
     },
-    createToolHandler(analyzer, "countWords", "Word count")
+    createWordCountHandler(analyzers)
   );
 
   // Register count_letters tool
   server.registerTool(
     "count_letters",
     {
-      description: "Count alphabetic characters (a-z, A-Z)",
-      inputSchema: TextInputSchema,
+      description: "Count Unicode letters, optionally ASCII-only (a-z, A-Z) or broken down by script",
+      inputSchema: LetterCountInputSchema,
     },
-    createToolHandler(analyzer, "countLetters", "Letter count")
+    createLetterCountHandler(analyzers)
   );
 
   // Register count_characters tool
   server.registerTool(
     "count_characters",
     {
-      description: "Count total characters including spaces",
-      inputSchema: TextInputSchema,
+      description: "Count total characters including spaces, or the length in code points, UTF-16 code units, UTF-8 bytes or characters without spaces, to check against the limits of other systems",
+      inputSchema: CharacterCountInputSchema,
     },
-    createToolHandler(analyzer, "countCharacters", "Character count")
+    createCharacterCountHandler(analyzers)
   );
 
   // Register count_sentences tool
   server.registerTool(
     "count_sentences",
     {
-      description: "Count sentences split by terminators (. ! ?)",
-      inputSchema: TextInputSchema,
+      description: "Count sentences split by terminators (. ! ?), optionally with abbreviation-aware smart mode",
+      inputSchema: SentenceCountInputSchema,
     },
-    createToolHandler(analyzer, "countSentences", "Sentence count")
+    createToolHandler(analyzers, "countSentences", "Sentence count")
   );
 
   // Register count_paragraphs tool
@@ -92,6 +330,34 @@ export function registerWordCountTools(server: McpServer) {
       description: "Count paragraphs split by double line breaks",
       inputSchema: TextInputSchema,
     },
-    createToolHandler(analyzer, "countParagraphs", "Paragraph count")
+    createToolHandler(analyzers, "countParagraphs", "Paragraph count")
   );
+
+  // Register analyze_text tool
+  server.registerTool(
+    "analyze_text",
+    {
+      description: "Compute all text metrics (words, letters, characters, sentences, paragraphs, reading and speaking time) in a single call",
+      inputSchema: AnalyzeTextInputSchema,
+      outputSchema: AnalyzeTextOutputSchema,
+    },
+    createAnalyzeTextHandler(analyzers)
+  );
+
+  registerReadabilityTools(server, analyzers);
+  registerFrequencyTools(server, analyzers);
+  registerVocabularyTools(server, analyzers);
+  registerTimeTools(server, analyzers);
+  registerLimitTools(server, analyzers);
+  registerTruncateTools(server, analyzers);
+  registerSegmentTools(server, analyzers);
+  registerBreakdownTools(server, analyzers);
+  registerCompareTools(server, analyzers);
+  registerIncrementalTools(server, analyzers);
+  registerBatchTools(server, analyzers, options.maxBatchSize);
+
+  // Register file tools only when file access has been granted
+  if (options.allowedRoots && options.allowedRoots.length > 0) {
+    registerFileTools(server, analyzers, new FileSandbox(options.allowedRoots), options.maxInputLength);
+  }
 }
\ No newline at end of file
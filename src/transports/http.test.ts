@@ -0,0 +1,72 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { StreamableHttpServer } from './http.js';
+
+/**
+ * Creates an MCP server that takes a while to connect, so initialize requests overlap
+ */
+function createSlowServer(): McpServer {
+  const server = new McpServer({ name: 'slow-server', version: '1.0.0' });
+  const connect = server.connect.bind(server);
+  server.connect = async (transport: Transport) => {
+    await new Promise(resolve => setTimeout(resolve, 50));
+    return connect(transport);
+  };
+  return server;
+}
+
+/**
+ * Sends an initialize request and returns the HTTP status
+ */
+async function initialize(url: string): Promise<number> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+    }),
+    signal: AbortSignal.timeout(5000),
+  });
+  await response.text();
+  return response.status;
+}
+
+describe('StreamableHttpServer', () => {
+  let server: StreamableHttpServer;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new StreamableHttpServer(createSlowServer, { port: 0, maxSessions: 2 });
+    url = await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should not exceed the maximum with concurrent initialize requests', async () => {
+    const statuses = await Promise.all(Array.from({ length: 4 }, () => initialize(url)));
+
+    expect(statuses.filter(status => status === 200)).toHaveLength(2);
+    expect(statuses.filter(status => status === 503)).toHaveLength(2);
+    expect(server.sessionCount).toBe(2);
+  });
+
+  it('should release the reserved slot when initialization fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = new StreamableHttpServer(() => {
+      throw new Error('Server could not be created');
+    }, { port: 0, maxSessions: 1 });
+    const failingUrl = await failing.listen();
+    try {
+      expect(await initialize(failingUrl)).toBe(500);
+      expect(await initialize(failingUrl)).toBe(500);
+    } finally {
+      await failing.close();
+      consoleError.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,382 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { DEFAULT_MAX_INPUT_LENGTH } from "../tools/guard.js";
+
+/**
+ * Options for serving MCP over Streamable HTTP
+ */
+export interface HttpTransportOptions {
+  /** Interface to listen on (defaults to "127.0.0.1") */
+  host?: string;
+  /** Port to listen on; 0 picks a free port (defaults to 3000) */
+  port?: number;
+  /** Path of the MCP endpoint (defaults to "/mcp") */
+  path?: string;
+  /** Bearer token clients must send in the Authorization header; no authentication when unset */
+  authToken?: string;
+  /** Browser origins allowed to call the server, or "*" for any origin; browser requests are rejected when unset */
+  corsOrigins?: string[];
+  /** Milliseconds without requests after which a session is closed (defaults to 30 minutes) */
+  sessionTimeoutMs?: number;
+  /** Largest number of open sessions; new sessions are refused with 503 beyond it (defaults to 1000) */
+  maxSessions?: number;
+  /** Largest total length of the text arguments of a tool call, which sizes the largest request body accepted (defaults to 5,000,000) */
+  maxInputLength?: number;
+}
+
+// Defaults for how long and how many sessions are kept
+export const DEFAULT_SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+export const DEFAULT_MAX_SESSIONS = 1000;
+
+// Most bytes a UTF-16 code unit of text takes in a JSON body (a "\uXXXX" escape)
+const MAX_JSON_BYTES_PER_CHARACTER = 6;
+// Room in a request body for the JSON-RPC envelope and the non-text arguments, in bytes
+const BODY_ENVELOPE_SIZE = 64 * 1024;
+
+// Headers browsers may send and read in cross-origin requests
+const CORS_ALLOWED_HEADERS = "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID";
+const CORS_EXPOSED_HEADERS = "Mcp-Session-Id, WWW-Authenticate";
+
+/**
+ * Error for requests that are rejected before reaching the MCP transport
+ */
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly code = -32000) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * An open client session
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  /** Requests of the session still being answered, including open event streams */
+  activeRequests: number;
+  /** Closes the session once it has had no requests for the session timeout */
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Serves MCP over the Streamable HTTP transport. Each client session gets its own transport
+ * and McpServer, created by the given factory, and is identified by the Mcp-Session-Id header.
+ * Sessions that clients abandon are closed after the session timeout.
+ */
+export class StreamableHttpServer {
+  private sessions = new Map<string, Session>();
+  private server: http.Server;
+  private readonly host: string;
+  private readonly port: number;
+  private readonly path: string;
+  private readonly authToken?: string;
+  private readonly corsOrigins: string[];
+  private readonly sessionTimeoutMs: number;
+  private readonly maxSessions: number;
+  private readonly maxBodySize: number;
+  // Sessions whose initialize request is still being handled, counted toward maxSessions
+  private pendingSessions = 0;
+
+  /**
+   * Prepares the HTTP server without listening yet.
+   * @param createServer Factory for the McpServer handling each new session.
+   * @param options Host, port, endpoint path, authentication, CORS and session limit options.
+   */
+  constructor(private readonly createServer: () => McpServer, options: HttpTransportOptions = {}) {
+    this.host = options.host ?? "127.0.0.1";
+    this.port = options.port ?? 3000;
+    this.path = options.path ?? "/mcp";
+    this.authToken = options.authToken;
+    this.corsOrigins = options.corsOrigins ?? [];
+    this.sessionTimeoutMs = options.sessionTimeoutMs ?? DEFAULT_SESSION_TIMEOUT_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    // Bodies are limited by the input they may carry, so that raising the input limit works over HTTP
+    this.maxBodySize = (options.maxInputLength ?? DEFAULT_MAX_INPUT_LENGTH) * MAX_JSON_BYTES_PER_CHARACTER + BODY_ENVELOPE_SIZE;
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("Error handling HTTP request:", error);
+        if (!res.headersSent) {
+          sendError(res, 500, -32603, "Internal server error");
+        }
+      });
+    });
+  }
+
+  /**
+   * Starts listening for connections.
+   * @returns The URL of the MCP endpoint.
+   */
+  public async listen(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+    const { address, port } = this.server.address() as AddressInfo;
+    const host = address.includes(":") ? `[${address}]` : address;
+    return `http://${host}:${port}${this.path}`;
+  }
+
+  /**
+   * Closes every session and stops listening.
+   */
+  public async close(): Promise<void> {
+    await Promise.all([...this.sessions.values()].map(session => session.transport.close()));
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Number of open sessions.
+   */
+  public get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Applies CORS and authentication, then routes a request to its session's transport.
+   * @param req The incoming request.
+   * @param res The response to write.
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      this.applyCors(req, res);
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname !== this.path) {
+        throw new HttpError(404, "Not found");
+      }
+
+      if (req.method === "OPTIONS") {
+        res.writeHead(204, {
+          "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+          "Access-Control-Allow-Headers": CORS_ALLOWED_HEADERS,
+          "Access-Control-Max-Age": "86400",
+        }).end();
+        return;
+      }
+
+      this.authenticate(req, res);
+
+      const sessionId = req.headers["mcp-session-id"];
+      if (req.method === "POST") {
+        const body = await readJsonBody(req, this.maxBodySize);
+        if (typeof sessionId === "string") {
+          await this.handleSessionRequest(sessionId, req, res, body);
+          return;
+        }
+        const initialize = Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+        if (!initialize) {
+          throw new HttpError(400, "Bad Request: No valid session ID provided");
+        }
+        await this.startSession(req, res, body);
+        return;
+      }
+
+      if (req.method === "GET" || req.method === "DELETE") {
+        if (typeof sessionId !== "string") {
+          throw new HttpError(400, "Bad Request: No valid session ID provided");
+        }
+        await this.handleSessionRequest(sessionId, req, res);
+        return;
+      }
+
+      res.setHeader("Allow", "GET, POST, DELETE, OPTIONS");
+      throw new HttpError(405, "Method not allowed");
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      sendError(res, error.status, error.code, error.message);
+    }
+  }
+
+  /**
+   * Adds CORS headers for allowed browser origins.
+   * @param req The incoming request.
+   * @param res The response to write.
+   * @throws HttpError if the request comes from an origin that is not allowed.
+   */
+  private applyCors(req: IncomingMessage, res: ServerResponse): void {
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+      // Not a browser request
+      return;
+    }
+    const anyOrigin = this.corsOrigins.includes("*");
+    if (!anyOrigin && !this.corsOrigins.includes(origin)) {
+      throw new HttpError(403, `Origin ${origin} is not allowed`);
+    }
+    res.setHeader("Access-Control-Allow-Origin", anyOrigin ? "*" : origin);
+    res.setHeader("Access-Control-Expose-Headers", CORS_EXPOSED_HEADERS);
+    res.setHeader("Vary", "Origin");
+  }
+
+  /**
+   * Checks the bearer token when authentication is enabled.
+   * @param req The incoming request.
+   * @param res The response to write.
+   * @throws HttpError if the token is missing or wrong.
+   */
+  private authenticate(req: IncomingMessage, res: ServerResponse): void {
+    if (this.authToken === undefined) {
+      return;
+    }
+    const match = (req.headers.authorization ?? "").match(/^Bearer\s+(\S+)$/i);
+    // Compare digests so that the comparison takes the same time for tokens of any length
+    if (!match || !timingSafeEqual(digest(match[1]), digest(this.authToken))) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      throw new HttpError(401, "Unauthorized");
+    }
+  }
+
+  /**
+   * Passes a request to its session's transport, keeping the session open while it is answered.
+   * @param sessionId The Mcp-Session-Id header value.
+   * @param req The incoming request.
+   * @param res The response to write.
+   * @param body The parsed body of a POST request.
+   * @throws HttpError if the session does not exist or has been closed.
+   */
+  private async handleSessionRequest(sessionId: string, req: IncomingMessage, res: ServerResponse, body?: unknown): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new HttpError(404, "Session not found", -32001);
+    }
+
+    clearTimeout(session.idleTimer);
+    session.activeRequests++;
+    res.once("close", () => {
+      session.activeRequests--;
+      if (session.activeRequests === 0) {
+        this.scheduleExpiry(sessionId, session);
+      }
+    });
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Starts the idle timer of a session that has no requests in progress.
+   * @param sessionId The session ID.
+   * @param session The session.
+   */
+  private scheduleExpiry(sessionId: string, session: Session): void {
+    if (this.sessions.get(sessionId) !== session) {
+      // Already closed
+      return;
+    }
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      this.sessions.delete(sessionId);
+      session.transport.close().catch((error) => {
+        console.error("Error closing idle session:", error);
+      });
+    }, this.sessionTimeoutMs);
+    // Idle sessions do not keep the process alive
+    session.idleTimer.unref();
+  }
+
+  /**
+   * Creates the transport and server for a new session and handles its initialize request. The
+   * session is registered once the transport has assigned the session ID; until then it holds
+   * a reserved slot, so that concurrent initialize requests cannot exceed the maximum.
+   * @param req The initialize request.
+   * @param res The response to write.
+   * @param body The parsed request body.
+   * @throws HttpError if the maximum number of sessions is open.
+   */
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    if (this.sessions.size + this.pendingSessions >= this.maxSessions) {
+      throw new HttpError(503, `Too many sessions: at most ${this.maxSessions} can be open at once`);
+    }
+
+    this.pendingSessions++;
+    let reserved = true;
+    const release = () => {
+      if (reserved) {
+        reserved = false;
+        this.pendingSessions--;
+      }
+    };
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        release();
+        const session: Session = { transport, activeRequests: 0 };
+        this.sessions.set(sessionId, session);
+        this.scheduleExpiry(sessionId, session);
+      },
+    });
+    transport.onclose = () => {
+      const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined;
+      if (session?.transport === transport) {
+        clearTimeout(session.idleTimer);
+        this.sessions.delete(transport.sessionId as string);
+      }
+    };
+
+    try {
+      await this.createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // Initialization failed if the session was never registered
+      release();
+    }
+  }
+}
+
+/**
+ * Reads and parses a JSON request body.
+ * @param req The incoming request.
+ * @param maxBodySize The largest body accepted, in bytes.
+ * @returns The parsed body.
+ * @throws HttpError if the body is too large or not valid JSON.
+ */
+async function readJsonBody(req: IncomingMessage, maxBodySize: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBodySize) {
+      throw new HttpError(413, `Request body is larger than ${maxBodySize} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Parse error: Invalid JSON", -32700);
+  }
+}
+
+/**
+ * Hashes a token for constant-time comparison.
+ * @param token The token to hash.
+ * @returns The SHA-256 digest.
+ */
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Writes a JSON-RPC error response.
+ * @param res The response to write.
+ * @param status The HTTP status code.
+ * @param code The JSON-RPC error code.
+ * @param message The error message.
+ */
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  }));
+}